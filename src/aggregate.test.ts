@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { aggregate, computeStatistics, parseAggregateOptions } from './aggregate.js';
+import { JsonValue } from './types.js';
+
+const orders: JsonValue[] = [
+  { status: 'paid', total: 10.1, items: [{ qty: 1 }, { qty: 2 }] },
+  { status: 'open', total: 20.2, items: [{ qty: 3 }] },
+  { status: 'paid', total: 0.3, items: [] },
+  { total: 'n/a', items: [{ qty: 4 }] },
+];
+
+describe('parseAggregateOptions', () => {
+  it('should apply defaults and validate arguments', () => {
+    expect(parseAggregateOptions({})).toEqual({
+      field: undefined,
+      groupBy: undefined,
+      operations: ['count', 'sum', 'avg', 'min', 'max'],
+      bins: 10,
+      maxGroups: 100,
+    });
+    expect(() => parseAggregateOptions({ operations: ['median'] })).toThrow(/operations must be an array of/);
+    expect(() => parseAggregateOptions({ bins: 0 })).toThrow(/bins must be a positive integer/);
+    expect(() => parseAggregateOptions({ field: 1 })).toThrow(/field must be a string/);
+  });
+});
+
+describe('computeStatistics', () => {
+  it('should compute numeric statistics without floating point noise', () => {
+    expect(computeStatistics([0.1, 0.2, 'x', null], parseAggregateOptions({}))).toEqual({
+      count: 4,
+      sum: 0.3,
+      avg: 0.15,
+      min: 0.1,
+      max: 0.2,
+      nonNumeric: 2,
+    });
+    expect(computeStatistics([], parseAggregateOptions({}))).toEqual({ count: 0, sum: 0, avg: null, min: null, max: null });
+  });
+
+  it('should list distinct values and build histograms', () => {
+    const options = parseAggregateOptions({ operations: ['distinct', 'histogram'], bins: 2 });
+    expect(computeStatistics(['b', 'a', 'b'], options)).toEqual({
+      count: 3,
+      distinct: { count: 2, values: ['b', 'a'] },
+      histogram: [
+        { value: 'b', count: 2 },
+        { value: 'a', count: 1 },
+      ],
+      nonNumeric: 3,
+    });
+    expect(computeStatistics([0, 1, 2, 3, 4], options).histogram).toEqual([
+      { from: 0, to: 2, count: 2 },
+      { from: 2, to: 4, count: 3 },
+    ]);
+    expect(computeStatistics([5, 5], options).histogram).toEqual([{ from: 5, to: 5, count: 2 }]);
+  });
+});
+
+describe('aggregate', () => {
+  it('should aggregate a field of each match', () => {
+    expect(aggregate(orders, parseAggregateOptions({ field: 'items[*].qty', operations: ['sum'] }))).toEqual({ count: 4, sum: 10 });
+  });
+
+  it('should group by a sub-path, largest groups first', () => {
+    const result = aggregate(orders, parseAggregateOptions({ field: 'total', groupBy: 'status', operations: ['sum'], maxGroups: 2 }));
+    expect(result).toEqual({
+      count: 4,
+      sum: 30.6,
+      nonNumeric: 1,
+      groups: [
+        { key: 'paid', count: 2, sum: 10.4 },
+        { key: 'open', count: 1, sum: 20.2 },
+      ],
+      totalGroups: 3,
+      groupsTruncated: true,
+    });
+  });
+});
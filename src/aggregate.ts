@@ -0,0 +1,184 @@
+import { resolveSubPath, selectSubPath } from './projection.js';
+import { AGGREGATE_OPERATIONS, AggregateOperation, JsonValue } from './types.js';
+
+const DEFAULT_OPERATIONS: AggregateOperation[] = ['count', 'sum', 'avg', 'min', 'max'];
+const DEFAULT_BINS = 10;
+const DEFAULT_MAX_GROUPS = 100;
+
+// Most values listed by distinct, and by histograms of non-numeric values
+const MAX_LISTED_VALUES = 100;
+
+export interface AggregateOptions {
+  // Sub-path of each match to aggregate (the match itself when omitted)
+  field?: string;
+  // Sub-path of each match whose value groups the matches
+  groupBy?: string;
+  operations: AggregateOperation[];
+  bins: number;
+  maxGroups: number;
+}
+
+export interface Statistics {
+  count: number;
+  sum?: number;
+  avg?: number | null;
+  min?: number | null;
+  max?: number | null;
+  // Values that sum, avg, min, max and numeric histograms skipped
+  nonNumeric?: number;
+  distinct?: { count: number; values: JsonValue[]; truncated?: true };
+  histogram?: Array<{ from: number; to: number; count: number }> | Array<{ value: JsonValue; count: number }>;
+}
+
+export interface GroupStatistics extends Statistics {
+  key: JsonValue;
+}
+
+export interface Aggregation extends Statistics {
+  groups?: GroupStatistics[];
+  totalGroups?: number;
+  groupsTruncated?: true;
+}
+
+function parsePositiveInteger(value: unknown, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+// Validate the arguments of aggregate
+export function parseAggregateOptions(args: {
+  field?: unknown;
+  groupBy?: unknown;
+  operations?: unknown;
+  bins?: unknown;
+  maxGroups?: unknown;
+}): AggregateOptions {
+  for (const name of ['field', 'groupBy'] as const) {
+    if (args[name] !== undefined && typeof args[name] !== 'string') {
+      throw new Error(`${name} must be a string`);
+    }
+  }
+  if (
+    args.operations !== undefined &&
+    (!Array.isArray(args.operations) || !args.operations.every((operation) => AGGREGATE_OPERATIONS.includes(operation)))
+  ) {
+    throw new Error(`operations must be an array of: ${AGGREGATE_OPERATIONS.join(', ')}`);
+  }
+  return {
+    field: args.field as string | undefined,
+    groupBy: args.groupBy as string | undefined,
+    operations: (args.operations as AggregateOperation[] | undefined) ?? DEFAULT_OPERATIONS,
+    bins: parsePositiveInteger(args.bins, 'bins', DEFAULT_BINS),
+    maxGroups: parsePositiveInteger(args.maxGroups, 'maxGroups', DEFAULT_MAX_GROUPS),
+  };
+}
+
+// Drop floating point noise such as 0.30000000000000004
+function round(value: number): number {
+  return Number(value.toPrecision(15));
+}
+
+// Count equal values, most frequent first (ties in order of appearance)
+function countValues(values: JsonValue[]): Array<{ value: JsonValue; count: number }> {
+  const counts = new Map<string, { value: JsonValue; count: number }>();
+  for (const value of values) {
+    const key = JSON.stringify(value);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { value, count: 1 });
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+// Split the range of the numbers into equal-width bins; the last bin includes its upper bound
+function binNumbers(numbers: number[], min: number, max: number, bins: number): Array<{ from: number; to: number; count: number }> {
+  const width = (max - min) / bins;
+  const histogram = Array.from({ length: width === 0 ? 1 : bins }, (_, index) => ({
+    from: round(min + index * width),
+    to: round(width === 0 ? max : min + (index + 1) * width),
+    count: 0,
+  }));
+  for (const number of numbers) {
+    const index = width === 0 ? 0 : Math.min(bins - 1, Math.floor((number - min) / width));
+    histogram[index].count++;
+  }
+  return histogram;
+}
+
+// Compute the requested statistics over a list of values. count is always
+// reported; numeric statistics only consider numbers and report how many
+// other values there were.
+export function computeStatistics(values: JsonValue[], options: AggregateOptions): Statistics {
+  const operations = new Set(options.operations);
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  const statistics: Statistics = { count: values.length };
+
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const number of numbers) {
+    sum += number;
+    min = Math.min(min, number);
+    max = Math.max(max, number);
+  }
+  if (operations.has('sum')) statistics.sum = round(sum);
+  if (operations.has('avg')) statistics.avg = numbers.length === 0 ? null : round(sum / numbers.length);
+  if (operations.has('min')) statistics.min = numbers.length === 0 ? null : min;
+  if (operations.has('max')) statistics.max = numbers.length === 0 ? null : max;
+
+  if (operations.has('distinct')) {
+    const distinct = countValues(values);
+    statistics.distinct = { count: distinct.length, values: distinct.slice(0, MAX_LISTED_VALUES).map((entry) => entry.value) };
+    if (distinct.length > MAX_LISTED_VALUES) {
+      statistics.distinct.truncated = true;
+    }
+  }
+  if (operations.has('histogram')) {
+    statistics.histogram =
+      numbers.length > 0 ? binNumbers(numbers, min, max, options.bins) : countValues(values).slice(0, MAX_LISTED_VALUES);
+  }
+
+  const numeric = ['sum', 'avg', 'min', 'max', 'histogram'].some((operation) => operations.has(operation as AggregateOperation));
+  if (numeric && numbers.length < values.length) {
+    statistics.nonNumeric = values.length - numbers.length;
+  }
+  return statistics;
+}
+
+// Aggregate the values selected by a query: the matches themselves, or the
+// values `field` selects in each. With groupBy, also per distinct value of that
+// sub-path (null for matches without it), largest groups first.
+export function aggregate(matches: JsonValue[], options: AggregateOptions): Aggregation {
+  const fieldValues = (match: JsonValue) => (options.field === undefined ? [match] : selectSubPath(match, options.field));
+  const aggregation: Aggregation = computeStatistics(matches.flatMap(fieldValues), options);
+  if (options.groupBy === undefined) {
+    return aggregation;
+  }
+
+  const groups = new Map<string, { key: JsonValue; values: JsonValue[] }>();
+  for (const match of matches) {
+    const key = resolveSubPath(match, options.groupBy) ?? null;
+    const id = JSON.stringify(key);
+    const group = groups.get(id) ?? { key, values: [] };
+    groups.set(id, group);
+    group.values.push(...fieldValues(match));
+  }
+
+  const sorted = [...groups.values()]
+    .map((group) => ({ key: group.key, ...computeStatistics(group.values, options) }))
+    .sort((a, b) => b.count - a.count);
+  aggregation.groups = sorted.slice(0, options.maxGroups);
+  aggregation.totalGroups = sorted.length;
+  if (sorted.length > options.maxGroups) {
+    aggregation.groupsTruncated = true;
+  }
+  return aggregation;
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  chmodSync,
+  existsSync,
+  lstatSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { writeFileAtomic } from './atomic.js';
+
+describe('writeFileAtomic', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-atomic-'));
+    file = join(testDir, 'data.json');
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should replace the content and leave no temp or lock files behind', () => {
+    writeFileSync(file, '{"a":1}');
+    writeFileAtomic(file, '{"a":2}');
+    expect(readFileSync(file, 'utf-8')).toBe('{"a":2}');
+    writeFileAtomic(join(testDir, 'new.json'), '{}');
+    expect(readdirSync(testDir).sort()).toEqual(['data.json', 'new.json']);
+  });
+
+  it.skipIf(process.platform === 'win32')('should keep the mode and follow symlinks', () => {
+    writeFileSync(file, '{"a":1}');
+    chmodSync(file, 0o640);
+    const link = join(testDir, 'link.json');
+    symlinkSync(file, link);
+
+    writeFileAtomic(link, '{"a":2}');
+    expect(readFileSync(file, 'utf-8')).toBe('{"a":2}');
+    expect(statSync(file).mode & 0o777).toBe(0o640);
+    expect(lstatSync(link).isSymbolicLink()).toBe(true);
+  });
+
+  it('should rotate backups of the previous content', () => {
+    writeFileSync(file, '1');
+    for (const text of ['2', '3', '4']) {
+      writeFileAtomic(file, text, { backups: 2 });
+    }
+    expect(readFileSync(file, 'utf-8')).toBe('4');
+    expect(readFileSync(`${file}.bak`, 'utf-8')).toBe('3');
+    expect(readFileSync(`${file}.bak.1`, 'utf-8')).toBe('2');
+    expect(existsSync(`${file}.bak.2`)).toBe(false);
+  });
+
+  it('should refuse to overwrite content changed by another process', () => {
+    writeFileSync(file, '{"a":5}');
+    expect(() => writeFileAtomic(file, '{"a":2}', { expected: '{"a":1}' })).toThrow('was changed by another process');
+    expect(readFileSync(file, 'utf-8')).toBe('{"a":5}');
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('should take over a lock left behind by a crashed process', () => {
+    writeFileSync(file, '1');
+    writeFileSync(`${file}.lock`, '999999999');
+    const old = new Date(Date.now() - 120_000);
+    utimesSync(`${file}.lock`, old, old);
+    writeFileAtomic(file, '2');
+    expect(readFileSync(file, 'utf-8')).toBe('2');
+    expect(existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it('should take over a stale lock only in turn with other waiters', () => {
+    writeFileSync(file, '1');
+    writeFileSync(`${file}.lock`, '999999999');
+    // Another waiter crashed while taking the lock over
+    writeFileSync(`${file}.lock.takeover`, '');
+    const old = new Date(Date.now() - 120_000);
+    utimesSync(`${file}.lock.takeover`, old, old);
+    writeFileAtomic(file, '2');
+    expect(readFileSync(file, 'utf-8')).toBe('2');
+    expect(readdirSync(testDir)).toEqual(['data.json']);
+  });
+});
@@ -0,0 +1,191 @@
+import { randomBytes } from 'crypto';
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fchmodSync,
+  fchownSync,
+  fsyncSync,
+  openSync,
+  readFileSync,
+  realpathSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from 'fs';
+import { basename, dirname, join } from 'path';
+
+// How long a write waits for another process's lock before giving up
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_POLL_MS = 50;
+
+// A lock older than this is assumed left behind by a crashed process
+const STALE_LOCK_MS = 60_000;
+
+export interface AtomicWriteOptions {
+  // Copies of the previous content to keep: <file>.bak, then <file>.bak.1 and so on (default 0)
+  backups?: number;
+  // Content the file must still have when the lock is taken; another process
+  // writing it in the meantime is reported as a conflict instead of overwritten
+  expected?: string;
+}
+
+// Wait synchronously: tool calls run one at a time and synchronously, so this
+// blocks the whole server, for at most LOCK_TIMEOUT_MS while another process
+// holds a lock
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isOlderThan(filePath: string, ms: number): boolean {
+  const stats = statSync(filePath, { throwIfNoEntry: false });
+  return stats !== undefined && Date.now() - stats.mtimeMs > ms;
+}
+
+// Whether the process that created a lock file is gone (or the lock too old to trust)
+function isStale(lockPath: string): boolean {
+  try {
+    const pid = Number(readFileSync(lockPath, 'utf-8'));
+    if (Number.isInteger(pid) && pid > 0) {
+      try {
+        process.kill(pid, 0);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ESRCH') return true;
+      }
+    }
+    return isOlderThan(lockPath, STALE_LOCK_MS);
+  } catch {
+    // Released while we looked
+    return false;
+  }
+}
+
+// Remove a stale lock. Waiters that find it stale take turns through a second
+// lock file and check again inside it, so none removes a lock another waiter
+// has just taken over. False when another waiter has the turn.
+function removeStaleLock(lockPath: string): boolean {
+  const takeoverPath = `${lockPath}.takeover`;
+  try {
+    closeSync(openSync(takeoverPath, 'wx'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    // Held only for an instant, so an old one was left by a crash
+    if (isOlderThan(takeoverPath, STALE_LOCK_MS)) unlinkSync(takeoverPath);
+    return false;
+  }
+  try {
+    if (isStale(lockPath)) unlinkSync(lockPath);
+  } finally {
+    unlinkSync(takeoverPath);
+  }
+  return true;
+}
+
+// Take the advisory lock <file>.lock shared by all server instances, waiting
+// for another holder to release it. Returns the function that releases it.
+function acquireLock(filePath: string): () => void {
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, 'wx');
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      return () => unlinkSync(lockPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+    if (isStale(lockPath) && removeStaleLock(lockPath)) {
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock on ${filePath} (remove ${lockPath} if no other process holds it)`);
+    }
+    sleep(LOCK_POLL_MS);
+  }
+}
+
+// Shift <file>.bak to <file>.bak.1 and so on, dropping the oldest, and copy the file to <file>.bak
+function rotateBackups(filePath: string, count: number): void {
+  const backupPath = (index: number) => (index === 0 ? `${filePath}.bak` : `${filePath}.bak.${index}`);
+  for (let index = count - 1; index > 0; index--) {
+    if (existsSync(backupPath(index - 1))) {
+      renameSync(backupPath(index - 1), backupPath(index));
+    }
+  }
+  copyFileSync(filePath, backupPath(0));
+}
+
+// Flush a directory entry change (the rename) to disk; not supported everywhere
+function syncDirectory(directory: string): void {
+  try {
+    const fd = openSync(directory, 'r');
+    try {
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    // Windows cannot open directories
+  }
+}
+
+// Write the new content beside the file and rename it over the file
+function replaceFile(filePath: string, target: string, text: string, options: AtomicWriteOptions): void {
+  const stats = statSync(target, { throwIfNoEntry: false });
+  if (options.expected !== undefined && (!stats || readFileSync(target, 'utf-8') !== options.expected)) {
+    throw new Error(`Conflict: ${filePath} was changed by another process while it was being edited. Read it again and retry`);
+  }
+  if (stats && options.backups) {
+    rotateBackups(target, options.backups);
+  }
+
+  const tempPath = join(dirname(target), `.${basename(target)}.${randomBytes(6).toString('hex')}.tmp`);
+  const fd = openSync(tempPath, 'wx', stats ? stats.mode & 0o7777 : 0o666);
+  try {
+    try {
+      writeSync(fd, text, null, 'utf-8');
+      if (stats) {
+        fchmodSync(fd, stats.mode & 0o7777);
+        try {
+          fchownSync(fd, stats.uid, stats.gid);
+        } catch {
+          // Only root may give files away; the new file keeps our ownership
+        }
+      }
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, target);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Already renamed or never written
+    }
+    throw error;
+  }
+  syncDirectory(dirname(target));
+}
+
+// Replace a file's content so that readers and crashes see either the old or
+// the new content, never a mix: the text is written and flushed to a temp file
+// in the same directory, which is then renamed over the file. The file's mode
+// and, where permitted, owner are kept; a symlink is followed, not replaced.
+export function writeFileAtomic(filePath: string, text: string, options: AtomicWriteOptions = {}): void {
+  const target = existsSync(filePath) ? realpathSync(filePath) : filePath;
+  const release = acquireLock(target);
+  try {
+    replaceFile(filePath, target, text, options);
+  } catch (error) {
+    try {
+      release();
+    } catch {
+      // The failed write is the error worth reporting
+    }
+    throw error;
+  }
+  release();
+}
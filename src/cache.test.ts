@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { DocumentCache } from './cache.js';
+import { saveDocument } from './formats.js';
+
+// Backdate a file so its mtime is trusted without hashing its content
+function backdate(file: string, seconds = 60) {
+  const time = new Date(Date.now() - seconds * 1000);
+  utimesSync(file, time, time);
+}
+
+describe('DocumentCache', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-cache-'));
+    file = join(testDir, 'data.json');
+    writeFileSync(file, '{"a": 1}');
+    backdate(file);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should reuse the parsed document while the file is unchanged', () => {
+    const cache = new DocumentCache(1024 * 1024);
+    const first = cache.load(file);
+    expect(cache.load(file)).toBe(first);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, entries: 1 });
+  });
+
+  it('should reload when the size or content changes', () => {
+    const cache = new DocumentCache(1024 * 1024);
+    cache.load(file);
+
+    writeFileSync(file, '{"a": 22}');
+    backdate(file, 30);
+    expect(cache.load(file).data).toEqual({ a: 22 });
+
+    // Same size and a fresh mtime: the content hash tells them apart
+    writeFileSync(file, '{"a": 33}');
+    expect(cache.load(file).data).toEqual({ a: 33 });
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 3 });
+  });
+
+  it('should keep the document when only the mtime changes', () => {
+    const cache = new DocumentCache(1024 * 1024);
+    const first = cache.load(file);
+    backdate(file, 30);
+    expect(cache.load(file)).toBe(first);
+  });
+
+  it('should take the server\'s own writes without reading the file again', () => {
+    const cache = new DocumentCache(1024 * 1024);
+    const saved = saveDocument(cache.load(file), { a: 2 });
+    cache.update(saved);
+    expect(cache.load(file)).toEqual(saved);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should cache what the written text reads back as', () => {
+    const tomlFile = join(testDir, 'config.toml');
+    writeFileSync(tomlFile, '[a]\nx = 1\n');
+    const cache = new DocumentCache(1024 * 1024);
+    // TOML writes plain keys above tables
+    cache.update(saveDocument(cache.load(tomlFile), { a: { x: 1 }, b: 2 }));
+    const warm = cache.load(tomlFile).data;
+    expect(Object.keys(warm as object)).toEqual(['b', 'a']);
+    expect(JSON.stringify(warm)).toBe(JSON.stringify(new DocumentCache(1024 * 1024).load(tomlFile).data));
+  });
+
+  it('should evict the least recently used documents beyond the budget', () => {
+    const other = join(testDir, 'other.json');
+    const third = join(testDir, 'third.json');
+    writeFileSync(other, '{"b": 2}');
+    writeFileSync(third, '{"c": 3}');
+    [other, third].forEach((path) => backdate(path));
+
+    // Room for two 8-character documents at 6 bytes per character
+    const cache = new DocumentCache(100);
+    cache.load(file);
+    cache.load(other);
+    cache.load(file);
+    cache.load(third);
+
+    const stats = cache.stats();
+    expect(stats.evictions).toBe(1);
+    expect(stats.files.map((entry) => entry.file)).toEqual([file, third]);
+    expect(stats.bytes).toBe(96);
+  });
+
+  it('should not cache documents when the budget is zero', () => {
+    const cache = new DocumentCache(0);
+    cache.load(file);
+    cache.load(file);
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 2, entries: 0 });
+  });
+});
@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import { resolve } from 'path';
+import { detectDocumentFormat, loadDocument, parseDocument } from './formats.js';
+import { DocumentFormat, JSONDocument } from './types.js';
+
+// Files modified this recently may change again within the same mtime tick,
+// so their content hash is checked even when mtime and size still match
+const RACY_WINDOW_MS = 2000;
+
+// Rough memory cost of a cached document per character of its text:
+// the text itself (UTF-16) plus the parsed tree
+const BYTES_PER_CHARACTER = 6;
+
+interface CacheEntry {
+  document: JSONDocument;
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  bytes: number;
+  checkedAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  files: Array<{ file: string; format: DocumentFormat; bytes: number }>;
+}
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+function cacheKey(filePath: string, format: DocumentFormat): string {
+  return `${format}:${resolve(filePath)}`;
+}
+
+// Parsed documents by file, reused while the file's mtime, size and content
+// hash are unchanged and evicted least recently used first beyond `maxBytes`
+export class DocumentCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private maxBytes: number) {}
+
+  // Load a document, from the cache when the file has not changed
+  load(filePath: string, format: DocumentFormat = detectDocumentFormat(filePath)): JSONDocument {
+    const key = cacheKey(filePath, format);
+    const entry = this.entries.get(key);
+    const stats = entry && statSync(filePath, { throwIfNoEntry: false });
+    if (entry && stats) {
+      const now = Date.now();
+      const unchanged = stats.mtimeMs === entry.mtimeMs && stats.size === entry.size;
+      if (unchanged && entry.checkedAt - stats.mtimeMs > RACY_WINDOW_MS) {
+        return this.hit(key, entry);
+      }
+      // mtime or size changed, or the file is too fresh to trust them: compare content
+      if (this.readHash(filePath) === entry.hash) {
+        return this.hit(key, { ...entry, mtimeMs: stats.mtimeMs, size: stats.size, checkedAt: now });
+      }
+    }
+
+    this.misses++;
+    this.delete(key);
+    const before = statSync(filePath, { throwIfNoEntry: false });
+    const document = loadDocument(filePath, format);
+    if (before) {
+      this.store(key, document, before.mtimeMs, before.size);
+    }
+    return document;
+  }
+
+  // Record a document the server itself has just written. Its text is parsed
+  // again, so later loads see what reading the file gives (TOML reorders keys,
+  // for instance) rather than the value the edit produced.
+  update(document: JSONDocument): void {
+    const key = cacheKey(document.filePath, document.format);
+    this.delete(key);
+    const stats = statSync(document.filePath);
+    const written = { ...document, data: parseDocument(document.text, document.format) };
+    this.store(key, written, stats.mtimeMs, stats.size);
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      files: [...this.entries.values()].map((entry) => ({
+        file: resolve(entry.document.filePath),
+        format: entry.document.format,
+        bytes: entry.bytes,
+      })),
+    };
+  }
+
+  // Hash of the file's current content, or null when it cannot be read
+  // (loading it again then reports the error)
+  private readHash(filePath: string): string | null {
+    try {
+      return hashText(readFileSync(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private hit(key: string, entry: CacheEntry): JSONDocument {
+    this.hits++;
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.document;
+  }
+
+  private store(key: string, document: JSONDocument, mtimeMs: number, size: number): void {
+    const bytes = document.text.length * BYTES_PER_CHARACTER;
+    if (bytes > this.maxBytes) {
+      return;
+    }
+    const hash = hashText(document.text);
+    this.entries.set(key, { document, mtimeMs, size, hash, bytes, checkedAt: Date.now() });
+    this.bytes += bytes;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.bytes;
+      this.entries.delete(key);
+    }
+  }
+}
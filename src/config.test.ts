@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { delimiter } from 'path';
+import { DEFAULT_CACHE_SIZE_MB, parseServerOptions } from './config.js';
+
+describe('parseServerOptions', () => {
+  it('should read the cache size', () => {
+    expect(parseServerOptions([])).toEqual({ cacheSizeMB: DEFAULT_CACHE_SIZE_MB, roots: [], readOnly: false, backups: 0 });
+    expect(parseServerOptions(['--cache-size', '64'])).toMatchObject({ cacheSizeMB: 64 });
+    expect(parseServerOptions(['--cache-size=0'])).toMatchObject({ cacheSizeMB: 0 });
+    expect(parseServerOptions(['--history-dir', '/tmp/history'])).toMatchObject({ historyDir: '/tmp/history' });
+    expect(parseServerOptions(['--backups', '3'])).toMatchObject({ backups: 3 });
+  });
+
+  it('should read roots from arguments or the environment, and read-only mode', () => {
+    expect(parseServerOptions(['--read-only', '/srv/config', '/srv/data'])).toMatchObject({
+      roots: ['/srv/config', '/srv/data'],
+      readOnly: true,
+    });
+    const env = { JSON_MCP_ROOTS: ['/srv/a', '', '/srv/b'].join(delimiter) };
+    expect(parseServerOptions([], env).roots).toEqual(['/srv/a', '/srv/b']);
+    expect(parseServerOptions(['/srv/c'], env).roots).toEqual(['/srv/c']);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => parseServerOptions(['--cache-size', 'lots'])).toThrow(/non-negative number of megabytes/);
+    expect(() => parseServerOptions(['--backups=-1'])).toThrow(/--backups must be a non-negative integer/);
+    expect(() => parseServerOptions(['--unknown'])).toThrow();
+  });
+});
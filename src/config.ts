@@ -0,0 +1,51 @@
+import { delimiter } from 'path';
+import { parseArgs } from 'util';
+
+// Memory budget of the parsed-document cache when --cache-size is not given
+export const DEFAULT_CACHE_SIZE_MB = 512;
+
+// Environment variable listing allowed root directories, separated like PATH
+export const ROOTS_ENV = 'JSON_MCP_ROOTS';
+
+// Command-line options of the server
+export interface ServerOptions {
+  // Memory budget of the parsed-document cache in megabytes (0 disables caching)
+  cacheSizeMB: number;
+  // Directories tools may read and write below (anywhere when empty)
+  roots: string[];
+  // Hide and refuse the tools that modify files
+  readOnly: boolean;
+  // Directory where edit histories are kept across restarts (in memory only when unset)
+  historyDir?: string;
+  // Rotated backups kept of each file the server overwrites (0 for none)
+  backups: number;
+}
+
+// Parse command-line arguments (without the node and script paths). Allowed
+// roots are the positional arguments, or JSON_MCP_ROOTS when none are given.
+export function parseServerOptions(args: string[], env: NodeJS.ProcessEnv = {}): ServerOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    options: {
+      'cache-size': { type: 'string' },
+      'read-only': { type: 'boolean' },
+      'history-dir': { type: 'string' },
+      backups: { type: 'string' },
+    },
+    allowPositionals: true,
+  });
+
+  const cacheSize = values['cache-size'];
+  const cacheSizeMB = cacheSize === undefined ? DEFAULT_CACHE_SIZE_MB : Number(cacheSize);
+  if (!Number.isFinite(cacheSizeMB) || cacheSizeMB < 0) {
+    throw new Error(`--cache-size must be a non-negative number of megabytes, got "${cacheSize}"`);
+  }
+
+  const backups = Number(values.backups ?? 0);
+  if (!Number.isInteger(backups) || backups < 0) {
+    throw new Error(`--backups must be a non-negative integer, got "${values.backups}"`);
+  }
+
+  const roots = positionals.length > 0 ? positionals : (env[ROOTS_ENV] ?? '').split(delimiter).filter((root) => root !== '');
+  return { cacheSizeMB, roots, readOnly: values['read-only'] ?? false, historyDir: values['history-dir'], backups };
+}
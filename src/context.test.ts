@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { addSearchContext, parseContextDepth, trimValue } from './context.js';
+import { searchInJSON } from './tools.js';
+import { JsonValue } from './types.js';
+
+const data: JsonValue = {
+  users: [
+    { name: 'Alice', role: 'admin', address: { city: 'Paris', geo: { lat: 48.8, lng: 2.3 } } },
+    { name: 'Bob', role: 'user', tags: Array.from({ length: 30 }, (_, index) => `tag${index}`) },
+  ],
+};
+
+describe('search context', () => {
+  it('should report the parent path and sibling keys', () => {
+    const [match] = searchInJSON(data, 'Paris');
+    expect(addSearchContext(data, match, 0)).toEqual({
+      path: '$.users[0].address.city',
+      pointer: '/users/0/address/city',
+      value: 'Paris',
+      parentPath: '$.users[0].address',
+      siblingKeys: ['geo'],
+    });
+  });
+
+  it('should include the enclosing object trimmed to contextDepth levels', () => {
+    const [match] = searchInJSON(data, 'Paris');
+    expect(addSearchContext(data, match, 1).context).toEqual({ city: 'Paris', geo: '[Object: 2 keys]' });
+    expect(addSearchContext(data, match, 2).context).toEqual({ city: 'Paris', geo: { lat: 48.8, lng: 2.3 } });
+  });
+
+  it('should elide long arrays around the match', () => {
+    const [match] = searchInJSON(data, 'tag17');
+    const result = addSearchContext(data, match, 1);
+    expect(result.parentPath).toBe('$.users[1].tags');
+    expect(result.siblingKeys).toBeUndefined();
+    expect(result.context).toEqual([
+      '[... 12 items before]',
+      ...Array.from({ length: 10 }, (_, index) => `tag${index + 12}`),
+      '[... 8 items after]',
+    ]);
+  });
+
+  it('should summarize containers at depth zero and keep scalars', () => {
+    expect(trimValue({ a: [1, 2] }, 0)).toBe('[Object: 1 key]');
+    expect(trimValue({ a: [1, 2] }, 1)).toEqual({ a: '[Array: 2 items]' });
+    expect(trimValue('text', 0)).toBe('text');
+    expect(trimValue(Array.from({ length: 12 }, (_, index) => index), 1)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, '[... 2 items after]']);
+  });
+
+  it('should validate contextDepth', () => {
+    expect(parseContextDepth(undefined)).toBe(0);
+    expect(parseContextDepth(3)).toBe(3);
+    expect(() => parseContextDepth(-1)).toThrow(/contextDepth must be an integer from 0 to 10/);
+  });
+});
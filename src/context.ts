@@ -0,0 +1,83 @@
+import { formatJSONPath, formatJSONPointer } from './paths.js';
+import { getAtPointer, pointerToSegments } from './pointer.js';
+import { JSONMatch, JsonValue, SearchMatch, isJsonObject } from './types.js';
+
+// Longest array shown in a context snippet; longer ones are elided
+const MAX_CONTEXT_ITEMS = 10;
+
+// Most sibling keys listed for a match
+const MAX_SIBLING_KEYS = 20;
+
+// Validate the contextDepth argument of search
+export function parseContextDepth(contextDepth: unknown): number {
+  if (contextDepth === undefined) {
+    return 0;
+  }
+  if (typeof contextDepth !== 'number' || !Number.isInteger(contextDepth) || contextDepth < 0 || contextDepth > 10) {
+    throw new Error('contextDepth must be an integer from 0 to 10');
+  }
+  return contextDepth;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function summarize(value: JsonValue[] | Record<string, JsonValue>): string {
+  return Array.isArray(value) ? `[Array: ${plural(value.length, 'item')}]` : `[Object: ${plural(Object.keys(value).length, 'key')}]`;
+}
+
+// Copy a value down to `depth` levels of nesting: deeper containers become
+// summaries like "[Object: 3 keys]" and long arrays keep a window of items
+// (around `focus` when given) with markers for the elided ones
+export function trimValue(value: JsonValue, depth: number, focus?: number): JsonValue {
+  if (!Array.isArray(value) && !isJsonObject(value)) {
+    return value;
+  }
+  if (depth === 0) {
+    return summarize(value);
+  }
+  if (isJsonObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, trimValue(child, depth - 1)]));
+  }
+
+  let start = 0;
+  if (value.length > MAX_CONTEXT_ITEMS && focus !== undefined) {
+    start = Math.min(Math.max(0, focus - Math.floor(MAX_CONTEXT_ITEMS / 2)), value.length - MAX_CONTEXT_ITEMS);
+  }
+  const end = Math.min(value.length, start + MAX_CONTEXT_ITEMS);
+  const items: JsonValue[] = value.slice(start, end).map((item) => trimValue(item, depth - 1));
+  if (start > 0) {
+    items.unshift(`[... ${plural(start, 'item')} before]`);
+  }
+  if (end < value.length) {
+    items.push(`[... ${plural(value.length - end, 'item')} after]`);
+  }
+  return items;
+}
+
+// Describe where a search match sits: its parent path, the parent's other keys
+// and, when contextDepth > 0, the enclosing object or array trimmed to that depth
+export function addSearchContext(data: JsonValue, match: JSONMatch, contextDepth: number): SearchMatch {
+  const segments = pointerToSegments(data, match.pointer);
+  if (segments.length === 0) {
+    return match;
+  }
+
+  const parentSegments = segments.slice(0, -1);
+  const key = segments[segments.length - 1];
+  const parent = getAtPointer(data, formatJSONPointer(parentSegments));
+  const result: SearchMatch = { ...match, parentPath: formatJSONPath(parentSegments) };
+
+  if (isJsonObject(parent)) {
+    const siblings = Object.keys(parent).filter((sibling) => sibling !== key);
+    result.siblingKeys = siblings.slice(0, MAX_SIBLING_KEYS);
+    if (siblings.length > MAX_SIBLING_KEYS) {
+      result.moreSiblingKeys = siblings.length - MAX_SIBLING_KEYS;
+    }
+  }
+  if (contextDepth > 0) {
+    result.context = trimValue(parent, contextDepth, typeof key === 'number' ? key : undefined);
+  }
+  return result;
+}
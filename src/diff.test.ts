@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { diffJSON, isDeepEqual } from './diff.js';
+import { deleteAtPath, setAtPath, appendToArrayAtPath } from './tools.js';
+import { JsonValue } from './types.js';
+
+const config: JsonValue = {
+  name: 'service',
+  settings: { timeout: 30, retries: 3 },
+  tags: ['a', 'b', 'c'],
+};
+
+describe('diffJSON', () => {
+  it('should return no entries for equal documents', () => {
+    expect(diffJSON(config, JSON.parse(JSON.stringify(config)))).toEqual([]);
+  });
+
+  it('should report changed leaf values with before and after', () => {
+    const updated = setAtPath(config, '$.settings.timeout', 60);
+    expect(diffJSON(config, updated)).toEqual([
+      { type: 'changed', path: '$.settings.timeout', pointer: '/settings/timeout', before: 30, after: 60 },
+    ]);
+  });
+
+  it('should report added and removed object properties', () => {
+    const added = setAtPath(config, '$.settings.proxy', { host: 'localhost' });
+    expect(diffJSON(config, added)).toEqual([
+      { type: 'added', path: '$.settings.proxy', pointer: '/settings/proxy', after: { host: 'localhost' } },
+    ]);
+
+    const removed = deleteAtPath(config, '$.settings.retries');
+    expect(diffJSON(config, removed)).toEqual([
+      { type: 'removed', path: '$.settings.retries', pointer: '/settings/retries', before: 3 },
+    ]);
+  });
+
+  it('should report a single removed element instead of a shifted tail', () => {
+    const updated = deleteAtPath(config, '$.tags[0]');
+    expect(diffJSON(config, updated)).toEqual([
+      { type: 'removed', path: '$.tags[0]', pointer: '/tags/0', before: 'a' },
+    ]);
+  });
+
+  it('should report appended array elements', () => {
+    const updated = appendToArrayAtPath(config, '$.tags', 'd');
+    expect(diffJSON(config, updated)).toEqual([
+      { type: 'added', path: '$.tags[3]', pointer: '/tags/3', after: 'd' },
+    ]);
+  });
+
+  it('should order removed elements from the highest index down', () => {
+    const updated = deleteAtPath({ items: [1, 2, 3, 4, 5] }, '$.items[1:4]');
+    expect(diffJSON({ items: [1, 2, 3, 4, 5] }, updated).map((entry) => entry.path)).toEqual([
+      '$.items[3]',
+      '$.items[2]',
+      '$.items[1]',
+    ]);
+  });
+
+  it('should report type changes as a changed node', () => {
+    expect(diffJSON({ a: [1] }, { a: { b: 1 } })).toEqual([
+      { type: 'changed', path: '$.a', pointer: '/a', before: [1], after: { b: 1 } },
+    ]);
+  });
+
+  it('should quote keys that are not plain identifiers', () => {
+    expect(diffJSON({ 'a.b': 1 }, { 'a.b': 2 })).toEqual([
+      { type: 'changed', path: "$['a.b']", pointer: '/a.b', before: 1, after: 2 },
+    ]);
+  });
+});
+
+describe('isDeepEqual', () => {
+  it('should ignore object key order', () => {
+    expect(isDeepEqual({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 })).toBe(true);
+  });
+
+  it('should distinguish arrays from objects', () => {
+    expect(isDeepEqual([], {})).toBe(false);
+    expect(isDeepEqual({ a: null }, { b: null })).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { DiffEntry, JsonValue, PathSegment, StructuralChange, isJsonObject } from './types.js';
+import { formatJSONPath, formatJSONPointer } from './paths.js';
+
+// Structural equality for JSON values (object key order is ignored)
+export function isDeepEqual(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isJsonObject(a) && isJsonObject(b)) {
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+// Compute the added, removed and changed nodes between two JSON documents.
+// Arrays are aligned on their common prefix and suffix, so a single insertion or
+// deletion is reported as one added/removed element rather than a shifted tail.
+// Entries are ordered so that applying them one by one turns `before` into `after`:
+// removed array elements come in descending index order, added ones ascending.
+export function diffSegments(before: JsonValue, after: JsonValue): StructuralChange[] {
+  const entries: StructuralChange[] = [];
+
+  function record(type: StructuralChange['type'], segments: PathSegment[], values: { before?: JsonValue; after?: JsonValue }) {
+    entries.push({ type, segments, ...values });
+  }
+
+  function walk(a: JsonValue, b: JsonValue, segments: PathSegment[]) {
+    if (isDeepEqual(a, b)) {
+      return;
+    }
+
+    if (isJsonObject(a) && isJsonObject(b)) {
+      for (const key of Object.keys(a)) {
+        if (!Object.prototype.hasOwnProperty.call(b, key)) {
+          record('removed', [...segments, key], { before: a[key] });
+        } else {
+          walk(a[key], b[key], [...segments, key]);
+        }
+      }
+      for (const key of Object.keys(b)) {
+        if (!Object.prototype.hasOwnProperty.call(a, key)) {
+          record('added', [...segments, key], { after: b[key] });
+        }
+      }
+      return;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      let prefix = 0;
+      while (prefix < a.length && prefix < b.length && isDeepEqual(a[prefix], b[prefix])) {
+        prefix++;
+      }
+      let suffix = 0;
+      while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        isDeepEqual(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+      ) {
+        suffix++;
+      }
+
+      const removedCount = a.length - prefix - suffix;
+      const addedCount = b.length - prefix - suffix;
+      const paired = Math.min(removedCount, addedCount);
+
+      for (let i = prefix; i < prefix + paired; i++) {
+        walk(a[i], b[i], [...segments, i]);
+      }
+      for (let i = prefix + removedCount - 1; i >= prefix + paired; i--) {
+        record('removed', [...segments, i], { before: a[i] });
+      }
+      for (let i = prefix + paired; i < prefix + addedCount; i++) {
+        record('added', [...segments, i], { after: b[i] });
+      }
+      return;
+    }
+
+    record('changed', segments, { before: a, after: b });
+  }
+
+  walk(before, after, []);
+  return entries;
+}
+
+// Like diffSegments, with each location formatted as a JSONPath and a JSON Pointer
+export function diffJSON(before: JsonValue, after: JsonValue): DiffEntry[] {
+  return diffSegments(before, after).map(({ type, segments, ...values }) => ({
+    type,
+    path: formatJSONPath(segments),
+    pointer: formatJSONPointer(segments),
+    ...values,
+  }));
+}
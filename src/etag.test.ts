@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { checkIfMatch, computeETag, fileETag, parseIfMatch } from './etag.js';
+
+describe('etags', () => {
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-etag-'));
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should change with any change to the text', () => {
+    expect(computeETag('{"a":1}')).toBe(computeETag('{"a":1}'));
+    expect(computeETag('{"a":1}')).not.toBe(computeETag('{"a": 1}'));
+  });
+
+  it('should give the same token for a file read in chunks', () => {
+    const file = join(testDir, 'large.json');
+    // Multi-byte characters straddle the chunk boundaries
+    const text = JSON.stringify({ text: 'é€😀'.repeat(300_000) });
+    writeFileSync(file, text);
+    expect(fileETag(file)).toBe(computeETag(text));
+  });
+
+  it('should refuse documents changed since the token', () => {
+    const document = { filePath: 'data.json', format: 'json' as const, text: '{"a":2}', data: { a: 2 } };
+    expect(() => checkIfMatch(document, computeETag('{"a":2}'))).not.toThrow();
+    expect(() => checkIfMatch(document, computeETag('{"a":1}'))).toThrow('Conflict: data.json has changed since etag');
+  });
+
+  it('should validate ifMatch', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch('abc')).toBe('abc');
+    expect(() => parseIfMatch('')).toThrow('ifMatch must be an etag');
+    expect(() => parseIfMatch(42)).toThrow('ifMatch must be an etag');
+  });
+});
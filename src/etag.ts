@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { closeSync, openSync, readSync } from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { JSONDocument } from './types.js';
+
+// Bytes hashed at a time when a file is not loaded (streamed queries)
+const CHUNK_SIZE = 1024 * 1024;
+
+// Version token of a file's content, as returned by search and query. Any
+// change to the text, formatting included, gives a new token.
+export function computeETag(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+// Token of a file read in chunks instead of loaded; the same as computeETag of its text
+export function fileETag(filePath: string): string {
+  const hash = createHash('sha1');
+  const fd = openSync(filePath, 'r');
+  try {
+    const bytes = Buffer.alloc(CHUNK_SIZE);
+    const decoder = new StringDecoder('utf8');
+    let read: number;
+    while ((read = readSync(fd, bytes, 0, CHUNK_SIZE, null)) > 0) {
+      hash.update(decoder.write(bytes.subarray(0, read)));
+    }
+    hash.update(decoder.end());
+  } finally {
+    closeSync(fd);
+  }
+  return hash.digest('hex');
+}
+
+// Validate an ifMatch argument
+export function parseIfMatch(value: unknown): string | undefined {
+  if (value !== undefined && (typeof value !== 'string' || value === '')) {
+    throw new Error('ifMatch must be an etag returned by search or query');
+  }
+  return value;
+}
+
+// Refuse to write a document whose content is no longer the version `ifMatch` names
+export function checkIfMatch(document: JSONDocument, ifMatch: string): void {
+  const etag = computeETag(document.text);
+  if (etag !== ifMatch) {
+    throw new Error(
+      `Conflict: ${document.filePath} has changed since etag ${ifMatch} was issued (current etag: ${etag}). Read the file again and retry`
+    );
+  }
+}
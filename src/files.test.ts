@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { findFiles, globToRegExp, parseFileSelection } from './files.js';
+
+describe('globToRegExp', () => {
+  it('should match within and across directories', () => {
+    expect(globToRegExp('*.json').test('a.json')).toBe(true);
+    expect(globToRegExp('*.json').test('sub/a.json')).toBe(false);
+    expect(globToRegExp('**/*.json').test('a.json')).toBe(true);
+    expect(globToRegExp('**/*.json').test('sub/deep/a.json')).toBe(true);
+    expect(globToRegExp('packages/*/package.json').test('packages/core/package.json')).toBe(true);
+    expect(globToRegExp('**/dist/**').test('packages/core/dist/index.json')).toBe(true);
+  });
+
+  it('should support alternatives, character classes and literal dots', () => {
+    const pattern = globToRegExp('config.{yaml,yml}');
+    expect(pattern.test('config.yaml')).toBe(true);
+    expect(pattern.test('config.yml')).toBe(true);
+    expect(pattern.test('configXyml')).toBe(false);
+    expect(globToRegExp('v[0-9].json').test('v1.json')).toBe(true);
+    expect(globToRegExp('v[!0-9].json').test('v1.json')).toBe(false);
+    expect(globToRegExp('?.json').test('ab.json')).toBe(false);
+  });
+});
+
+describe('parseFileSelection', () => {
+  it('should validate arguments', () => {
+    expect(parseFileSelection({ directory: 'data' })).toMatchObject({ directory: 'data', maxFiles: 100 });
+    expect(() => parseFileSelection({ glob: 1 })).toThrow(/glob must be a string/);
+    expect(() => parseFileSelection({ include: '*.json' })).toThrow(/include must be an array/);
+    expect(() => parseFileSelection({ maxFiles: 0 })).toThrow(/maxFiles must be an integer from 1 to 1000/);
+  });
+});
+
+describe('findFiles', () => {
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-files-'));
+    for (const dir of ['packages/a', 'packages/b/dist', 'node_modules/x']) {
+      mkdirSync(join(testDir, dir), { recursive: true });
+    }
+    for (const file of [
+      'root.json',
+      'notes.txt',
+      'config.yaml',
+      'packages/a/package.json',
+      'packages/b/package.json',
+      'packages/b/dist/package.json',
+      'node_modules/x/package.json',
+    ]) {
+      writeFileSync(join(testDir, file), '{}');
+    }
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should select supported files in a directory, skipping node_modules', () => {
+    const { files, limitReached } = findFiles({ directory: testDir });
+    expect(files).toEqual(
+      ['config.yaml', 'packages/a/package.json', 'packages/b/dist/package.json', 'packages/b/package.json', 'root.json'].map(
+        (file) => join(testDir, file)
+      )
+    );
+    expect(limitReached).toBe(false);
+  });
+
+  it('should apply include and exclude patterns', () => {
+    const { files } = findFiles({ directory: testDir, include: ['**/package.json'], exclude: ['**/dist/**'] });
+    expect(files).toEqual([join(testDir, 'packages/a/package.json'), join(testDir, 'packages/b/package.json')]);
+  });
+
+  it('should expand a glob from its fixed directory', () => {
+    const { files } = findFiles({ glob: `${testDir}/packages/*/package.json` });
+    expect(files).toEqual([join(testDir, 'packages/a/package.json'), join(testDir, 'packages/b/package.json')]);
+  });
+
+  it('should stop at maxFiles', () => {
+    expect(findFiles({ directory: testDir, maxFiles: 2 })).toEqual({
+      files: [join(testDir, 'config.yaml'), join(testDir, 'packages/a/package.json')],
+      limitReached: true,
+    });
+  });
+
+  it('should report a missing directory', () => {
+    expect(() => findFiles({ directory: join(testDir, 'missing') })).toThrow(/Directory not found/);
+  });
+});
@@ -0,0 +1,172 @@
+import { Dirent, existsSync, readdirSync, statSync } from 'fs';
+import { isAbsolute, join, relative, sep } from 'path';
+
+// Files considered when searching a directory without include patterns
+export const DEFAULT_INCLUDE = ['**/*.{json,jsonc,jsonl,ndjson,yaml,yml,toml}'];
+
+// Largest number of files one call may read unless maxFiles says otherwise
+export const DEFAULT_MAX_FILES = 100;
+export const MAX_FILES_LIMIT = 1000;
+
+// Directories never descended into
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+const GLOB_CHARACTERS = /[*?[{]/;
+
+export interface FileSelection {
+  glob?: string;
+  directory?: string;
+  include?: string[];
+  exclude?: string[];
+  maxFiles?: number;
+}
+
+// Translate a glob into a regular expression over "/"-separated relative paths:
+// ** matches any number of directories, * and ? stay within one path segment,
+// {a,b} is an alternation and [...] a character class ([!...] negated)
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (ch === '{') {
+      braces++;
+      source += '(?:';
+    } else if (ch === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (ch === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function parseMaxFiles(maxFiles: unknown): number {
+  if (maxFiles === undefined) {
+    return DEFAULT_MAX_FILES;
+  }
+  if (typeof maxFiles !== 'number' || !Number.isInteger(maxFiles) || maxFiles < 1 || maxFiles > MAX_FILES_LIMIT) {
+    throw new Error(`maxFiles must be an integer from 1 to ${MAX_FILES_LIMIT}`);
+  }
+  return maxFiles;
+}
+
+function parsePatterns(patterns: unknown, name: string): string[] | undefined {
+  if (patterns === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(patterns) || !patterns.every((pattern) => typeof pattern === 'string')) {
+    throw new Error(`${name} must be an array of glob patterns`);
+  }
+  return patterns;
+}
+
+// Validate the file selection arguments of search and query
+export function parseFileSelection(args: {
+  glob?: unknown;
+  directory?: unknown;
+  include?: unknown;
+  exclude?: unknown;
+  maxFiles?: unknown;
+}): FileSelection {
+  if (args.glob !== undefined && typeof args.glob !== 'string') {
+    throw new Error('glob must be a string');
+  }
+  if (args.directory !== undefined && typeof args.directory !== 'string') {
+    throw new Error('directory must be a string');
+  }
+  return {
+    glob: args.glob,
+    directory: args.directory,
+    include: parsePatterns(args.include, 'include'),
+    exclude: parsePatterns(args.exclude, 'exclude'),
+    maxFiles: parseMaxFiles(args.maxFiles),
+  };
+}
+
+// Split a glob into the directory to walk and the pattern for paths below it
+export function splitGlob(glob: string): { base: string; pattern: string } {
+  const segments = glob.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARACTERS.test(segment));
+  if (firstGlob === -1) {
+    return { base: segments.slice(0, -1).join('/') || '.', pattern: segments[segments.length - 1] };
+  }
+  const base = segments.slice(0, firstGlob).join('/');
+  return { base: base === '' ? (isAbsolute(glob) ? '/' : '.') : base, pattern: segments.slice(firstGlob).join('/') };
+}
+
+// Find the files selected by a glob, or by a directory with include/exclude
+// patterns, in sorted order. Stops after maxFiles and says so.
+export function findFiles(selection: FileSelection): { files: string[]; limitReached: boolean } {
+  const maxFiles = selection.maxFiles ?? DEFAULT_MAX_FILES;
+  let base: string;
+  const required: RegExp[] = [];
+  if (selection.glob !== undefined) {
+    const split = splitGlob(selection.glob);
+    base = split.base;
+    required.push(globToRegExp(split.pattern));
+  } else if (selection.directory !== undefined) {
+    base = selection.directory;
+  } else {
+    throw new Error('Missing required parameter: glob (or directory)');
+  }
+  if (!existsSync(base) || !statSync(base).isDirectory()) {
+    throw new Error(`Directory not found: ${base}`);
+  }
+
+  const include = (selection.include ?? (selection.glob === undefined ? DEFAULT_INCLUDE : [])).map(globToRegExp);
+  const exclude = (selection.exclude ?? []).map(globToRegExp);
+  const files: string[] = [];
+
+  const isFile = (entry: Dirent, path: string) =>
+    entry.isFile() || (entry.isSymbolicLink() && statSync(path, { throwIfNoEntry: false })?.isFile() === true);
+
+  const walk = (directory: string): boolean => {
+    const entries = readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name) && walk(path)) {
+          return true;
+        }
+        continue;
+      }
+      const relativePath = relative(base, path).split(sep).join('/');
+      const selected =
+        isFile(entry, path) &&
+        required.every((pattern) => pattern.test(relativePath)) &&
+        (include.length === 0 || include.some((pattern) => pattern.test(relativePath))) &&
+        !exclude.some((pattern) => pattern.test(relativePath));
+      if (selected) {
+        if (files.length === maxFiles) {
+          return true;
+        }
+        files.push(path);
+      }
+    }
+    return false;
+  };
+
+  const limitReached = walk(base);
+  return { files, limitReached };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { detectDocumentFormat, loadDocument, parseDocument, parseDocumentFormat, saveDocument, serializeDocument } from './formats.js';
+import { appendToArrayAtPath, deleteAtPath, setAtPath } from './tools.js';
+import { JSONDocument } from './types.js';
+
+const tsconfig = `{
+  // Compiler settings
+  "compilerOptions": {
+    "target": "ES2022", // bumped for top-level await
+    "strict": true,
+    /* paths are resolved from here */
+    "baseUrl": ".",
+  },
+  "include": ["src"],
+}
+`;
+
+function jsoncDocument(text: string): JSONDocument {
+  return { filePath: 'tsconfig.json', format: 'jsonc', text, data: parseDocument(text, 'jsonc') };
+}
+
+describe('formats', () => {
+  it('should detect JSONC files by name', () => {
+    expect(detectDocumentFormat('/repo/tsconfig.json')).toBe('jsonc');
+    expect(detectDocumentFormat('/repo/tsconfig.build.json')).toBe('jsonc');
+    expect(detectDocumentFormat('/repo/.vscode/settings.json')).toBe('jsonc');
+    expect(detectDocumentFormat('/repo/.devcontainer/devcontainer.json')).toBe('jsonc');
+    expect(detectDocumentFormat('/repo/data.jsonc')).toBe('jsonc');
+    expect(detectDocumentFormat('/repo/package.json')).toBe('json');
+  });
+
+  it('should detect YAML and TOML files by extension', () => {
+    expect(detectDocumentFormat('/repo/.github/workflows/ci.yml')).toBe('yaml');
+    expect(detectDocumentFormat('/repo/deploy.YAML')).toBe('yaml');
+    expect(detectDocumentFormat('/repo/Cargo.toml')).toBe('toml');
+  });
+
+  it('should validate the format argument', () => {
+    expect(parseDocumentFormat(undefined)).toBeUndefined();
+    expect(parseDocumentFormat('jsonc')).toBe('jsonc');
+    expect(() => parseDocumentFormat('xml')).toThrow(/format must be one of/);
+  });
+
+  it('should parse comments and trailing commas in JSONC', () => {
+    expect(parseDocument(tsconfig, 'jsonc')).toEqual({
+      compilerOptions: { target: 'ES2022', strict: true, baseUrl: '.' },
+      include: ['src'],
+    });
+    expect(() => parseDocument('{ "a": }', 'jsonc')).toThrow(/ValueExpected at line 1 column 8/);
+    expect(() => parseDocument(tsconfig, 'json')).toThrow();
+  });
+
+  it('should change a value without touching comments or layout', () => {
+    const document = jsoncDocument(tsconfig);
+    const updated = setAtPath(document.data, '$.compilerOptions.target', 'ES2023');
+    expect(serializeDocument(document, updated)).toBe(tsconfig.replace('"ES2022"', '"ES2023"'));
+  });
+
+  it('should add, remove and append with minimal edits', () => {
+    const document = jsoncDocument(tsconfig);
+    let updated = setAtPath(document.data, '$.compilerOptions.outDir', 'dist');
+    updated = deleteAtPath(updated, '$.compilerOptions.strict');
+    updated = appendToArrayAtPath(updated, '$.include', 'test');
+
+    const text = serializeDocument(document, updated);
+    expect(text).toContain('// Compiler settings');
+    expect(text).toContain('"target": "ES2022", // bumped for top-level await');
+    expect(text).toContain('/* paths are resolved from here */');
+    expect(text).not.toContain('"strict"');
+    expect(parseDocument(text, 'jsonc')).toEqual({
+      compilerOptions: { target: 'ES2022', baseUrl: '.', outDir: 'dist' },
+      include: ['src', 'test'],
+    });
+  });
+
+  it('should keep the layout of plain JSON files', () => {
+    const text = '{\n    "a": 1\n}\n';
+    const document: JSONDocument = { filePath: 'a.json', format: 'json', text, data: parseDocument(text, 'json') };
+    expect(serializeDocument(document, { a: 2 })).toBe('{\n    "a": 2\n}\n');
+    expect(serializeDocument(document, { a: 2 }, { indent: '\t' })).toBe('{\n\t"a": 2\n}\n');
+  });
+
+  it('should edit YAML without touching comments or sequence style', () => {
+    const text = '# CI\njobs:\n  build:\n    runs-on: ubuntu-latest # pinned\n    steps:\n    - run: npm ci\n';
+    const data = parseDocument(text, 'yaml');
+    expect(data).toEqual({ jobs: { build: { 'runs-on': 'ubuntu-latest', steps: [{ run: 'npm ci' }] } } });
+
+    let updated = setAtPath(data, "$.jobs.build['runs-on']", 'ubuntu-24.04');
+    updated = appendToArrayAtPath(updated, '$.jobs.build.steps', { run: 'npm test' });
+    const document: JSONDocument = { filePath: 'ci.yml', format: 'yaml', text, data };
+    expect(serializeDocument(document, updated)).toBe(
+      '# CI\njobs:\n  build:\n    runs-on: ubuntu-24.04 # pinned\n    steps:\n    - run: npm ci\n    - run: npm test\n'
+    );
+  });
+
+  it('should expose multi-document YAML streams as an array of documents', () => {
+    const text = 'kind: Service\n---\nkind: Deployment\nreplicas: 1\n';
+    const data = parseDocument(text, 'yaml');
+    expect(data).toEqual([{ kind: 'Service' }, { kind: 'Deployment', replicas: 1 }]);
+
+    let updated = setAtPath(data, '$[1].replicas', 3);
+    updated = appendToArrayAtPath(updated, '$', { kind: 'ConfigMap' });
+    const document: JSONDocument = { filePath: 'app.yaml', format: 'yaml', text, data };
+    expect(serializeDocument(document, updated)).toBe('kind: Service\n---\nkind: Deployment\nreplicas: 3\n---\nkind: ConfigMap\n');
+    expect(() => serializeDocument(document, { kind: 'Service' })).toThrow(/must remain an array of documents/);
+    expect(() => parseDocument('a: [1', 'yaml')).toThrow();
+  });
+
+  it('should keep YAML streams readable as streams after deleting documents', () => {
+    const testDir = mkdtempSync(join(tmpdir(), 'json-mcp-yaml-'));
+    try {
+      const file = join(testDir, 'app.yaml');
+      writeFileSync(file, 'a: 1\n---\nb: 2\n---\nc: 3\n');
+      saveDocument(loadDocument(file), deleteAtPath(loadDocument(file).data, '$[2]'));
+      expect(loadDocument(file).data).toEqual([{ a: 1 }, { b: 2 }]);
+
+      const document = loadDocument(file);
+      expect(() => saveDocument(document, deleteAtPath(document.data, '$[1]'))).toThrow(/must keep at least two documents/);
+      expect(readFileSync(file, 'utf-8')).toBe('a: 1\n---\nb: 2\n');
+    } finally {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should read and write TOML, keeping dates', () => {
+    const text = '[package]\nname = "app"\nreleased = 2024-01-02\n\n[dependencies]\nserde = "1"\n';
+    const data = parseDocument(text, 'toml');
+    expect(data).toEqual({ package: { name: 'app', released: '2024-01-02' }, dependencies: { serde: '1' } });
+
+    const document: JSONDocument = { filePath: 'Cargo.toml', format: 'toml', text, data };
+    expect(serializeDocument(document, setAtPath(data, '$.dependencies.tokio', '1'))).toBe(
+      '[package]\nname = "app"\nreleased = 2024-01-02\n\n[dependencies]\nserde = "1"\ntokio = "1"\n'
+    );
+    expect(() => serializeDocument(document, setAtPath(data, '$.package.license', null))).toThrow(
+      /TOML cannot represent null \(at \$\.package\.license\)/
+    );
+    expect(() => serializeDocument(document, [1])).toThrow(/table at the top level/);
+  });
+});
@@ -0,0 +1,122 @@
+import { readFileSync } from 'fs';
+import { basename, dirname, extname } from 'path';
+import { writeFileAtomic } from './atomic.js';
+import { editJSONC, parseJSONC } from './jsonc.js';
+import { addLineNumbers, editJSONL, parseJSONL } from './jsonl.js';
+import { parseTOML, serializeTOML } from './toml.js';
+import { detectFormatting, formatJSON } from './tools.js';
+import { DOCUMENT_FORMATS, DocumentFormat, JSONDocument, JSONMatch, JsonValue, JsonValueSchema } from './types.js';
+import { editYAML, parseYAML } from './yaml.js';
+
+// Files that conventionally allow comments and trailing commas
+const JSONC_FILE_NAMES = [/^tsconfig(\..+)?\.json$/, /^jsconfig(\..+)?\.json$/, /^\.?devcontainer\.json$/, /\.code-workspace$/];
+
+// Pick a format from the file name: .yaml/.yml, .toml and .jsonl/.ndjson by extension; .jsonc files,
+// tsconfig/jsconfig, devcontainer and VS Code settings are JSONC; everything else is plain JSON.
+export function detectDocumentFormat(filePath: string): DocumentFormat {
+  const name = basename(filePath);
+  const extension = extname(name).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return 'yaml';
+  }
+  if (extension === '.toml') {
+    return 'toml';
+  }
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return 'jsonl';
+  }
+  if (extname(name) === '.jsonc' || JSONC_FILE_NAMES.some((pattern) => pattern.test(name))) {
+    return 'jsonc';
+  }
+  if (basename(dirname(filePath)) === '.vscode' && extname(name) === '.json') {
+    return 'jsonc';
+  }
+  return 'json';
+}
+
+// Validate a caller-supplied format argument
+export function parseDocumentFormat(format: unknown): DocumentFormat | undefined {
+  if (format === undefined) {
+    return undefined;
+  }
+  if (!DOCUMENT_FORMATS.includes(format as DocumentFormat)) {
+    throw new Error(`format must be one of: ${DOCUMENT_FORMATS.join(', ')}`);
+  }
+  return format as DocumentFormat;
+}
+
+// Parse document text in the given format
+export function parseDocument(text: string, format: DocumentFormat): JsonValue {
+  if (format === 'jsonc') {
+    return parseJSONC(text);
+  }
+  if (format === 'yaml') {
+    return parseYAML(text);
+  }
+  if (format === 'toml') {
+    return parseTOML(text);
+  }
+  if (format === 'jsonl') {
+    return parseJSONL(text);
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  return JsonValueSchema.parse(parsed);
+}
+
+// Read and parse a file; the format is detected from the file name unless given
+export function loadDocument(filePath: string, format: DocumentFormat = detectDocumentFormat(filePath)): JSONDocument {
+  try {
+    const text = readFileSync(filePath, 'utf-8');
+    return { filePath, format, text, data: parseDocument(text, format) };
+  } catch (error) {
+    throw new Error(`Failed to read or parse ${format.toUpperCase()} file: ${error}`);
+  }
+}
+
+// Serialize new data for a document, keeping the layout of its original text.
+// `indent` overrides the detected indentation (for JSONC, only of inserted nodes).
+// JSONC and YAML keep comments, JSON Lines rewrites only changed records;
+// TOML is rewritten as a whole.
+export function serializeDocument(document: JSONDocument, data: JsonValue, options: { indent?: string | number } = {}): string {
+  const formatting = detectFormatting(document.text);
+  if (options.indent !== undefined) {
+    formatting.indent = options.indent;
+  }
+
+  if (document.format === 'jsonc') {
+    return editJSONC(document.text, document.data, data, formatting);
+  }
+  if (document.format === 'yaml') {
+    return editYAML(document.text, document.data, data, formatting);
+  }
+  if (document.format === 'toml') {
+    return serializeTOML(document.text, data, formatting);
+  }
+  if (document.format === 'jsonl') {
+    return editJSONL(document.text, document.data, data, formatting);
+  }
+  return formatJSON(data, formatting);
+}
+
+// Report where matches are in the file: for JSON Lines, the line of each record
+export function locateMatches(document: JSONDocument, matches: JSONMatch[]): JSONMatch[] {
+  return document.format === 'jsonl' ? addLineNumbers(document.text, matches) : matches;
+}
+
+// Write new data to a document's file and return the updated document. The
+// write is atomic and refused when another process changed the file since it
+// was read; `backups` rotated copies of the old content are kept.
+export function saveDocument(
+  document: JSONDocument,
+  data: JsonValue,
+  options: { indent?: string | number; backups?: number } = {}
+): JSONDocument {
+  try {
+    const text = serializeDocument(document, data, options);
+    writeFileAtomic(document.filePath, text, { backups: options.backups, expected: document.text });
+    return { ...document, text, data };
+  } catch (error) {
+    throw new Error(`Failed to write ${document.format.toUpperCase()} file: ${error}`);
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EditHistory } from './history.js';
+
+describe('EditHistory', () => {
+  const file = '/data/config.json';
+
+  it('should undo and redo recorded edits in order', () => {
+    const history = new EditHistory();
+    history.record(file, 'set', '$.a', { a: 1, b: [1] }, { a: 2, b: [1] });
+    history.record(file, 'delete', '$.b', { a: 2, b: [1] }, { a: 2 });
+
+    const undo = history.prepareUndo(file, { a: 2 });
+    expect(undo.entry).toMatchObject({ id: 2, tool: 'delete', path: '$.b' });
+    expect(undo.data).toEqual({ a: 2, b: [1] });
+    history.completeUndo(file);
+
+    expect(history.prepareUndo(file, { a: 2, b: [1] }).data).toEqual({ a: 1, b: [1] });
+    expect(history.prepareRedo(file, { a: 2, b: [1] }).data).toEqual({ a: 2 });
+    history.completeRedo(file);
+    expect(history.list(file, 10)).toMatchObject({ canUndo: true, canRedo: false });
+  });
+
+  it('should refuse to undo when the file changed since the edit', () => {
+    const history = new EditHistory();
+    history.record(file, 'set', '$.a', { a: 1 }, { a: 2 });
+    expect(() => history.prepareUndo(file, { a: 3 })).toThrow('the file has changed since');
+    expect(() => history.prepareRedo(file, { a: 2 })).toThrow(`Nothing to redo for ${file}`);
+    expect(() => new EditHistory().prepareUndo(file, {})).toThrow(`Nothing to undo for ${file}`);
+  });
+
+  it('should not mistake reordered keys for a change to the file', () => {
+    // TOML writes plain keys above tables, so the file reads back as { b, a }
+    const history = new EditHistory();
+    history.record(file, 'set', '$.b', { a: { x: 1 } }, { a: { x: 1 }, b: 2 });
+    expect(history.prepareUndo(file, { b: 2, a: { x: 1 } }).data).toEqual({ a: { x: 1 } });
+  });
+
+  it('should drop redoable edits on a new edit and forget the oldest edits', () => {
+    const history = new EditHistory(2);
+    history.record(file, 'set', '$.a', { a: 1 }, { a: 2 });
+    history.record(file, 'set', '$.a', { a: 2 }, { a: 3 });
+    history.prepareUndo(file, { a: 3 });
+    history.completeUndo(file);
+    history.record(file, 'set', '$.a', { a: 2 }, { a: 4 });
+    history.record(file, 'set', '$.a', { a: 4 }, { a: 5 });
+    history.record(file, 'set', '$.a', { a: 5 }, { a: 5 });
+
+    const { entries, canRedo } = history.list(file, 10);
+    expect(canRedo).toBe(false);
+    expect(entries.map((entry) => entry.id)).toEqual([4, 3]);
+  });
+
+  it('should list undone edits first and summarize changes', () => {
+    const history = new EditHistory();
+    history.record(file, 'patch', undefined, { a: 1 }, { a: 2, b: 1, c: 1, d: 1 });
+    history.record(file, 'set', '$.e', { a: 2, b: 1, c: 1, d: 1 }, { a: 2, b: 1, c: 1, d: 1, e: 1 });
+    history.prepareUndo(file, { a: 2, b: 1, c: 1, d: 1, e: 1 });
+    history.completeUndo(file);
+
+    const { entries } = history.list(file, 10);
+    expect(entries).toEqual([
+      { id: 2, tool: 'set', path: '$.e', timestamp: expect.any(String), summary: 'added $.e', undone: true },
+      { id: 1, tool: 'patch', timestamp: expect.any(String), summary: 'changed $.a, added $.b, added $.c and 1 more' },
+    ]);
+    expect(history.list(file, 1).entries).toHaveLength(1);
+  });
+
+  describe('with a sidecar directory', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'json-mcp-history-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep the history across instances', () => {
+      new EditHistory(10, directory).record(file, 'set', '$.a', { a: 1 }, { a: 2 });
+      expect(readdirSync(directory)).toHaveLength(1);
+
+      const restored = new EditHistory(10, directory);
+      expect(restored.prepareUndo(file, { a: 2 }).data).toEqual({ a: 1 });
+      restored.completeUndo(file);
+      expect(new EditHistory(10, directory).list(file, 10)).toMatchObject({ canUndo: false, canRedo: true });
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { writeFileAtomic } from './atomic.js';
+import { diffJSON } from './diff.js';
+import { applyJSONPatch, createJSONPatch } from './jsonpatch.js';
+import { JSONPatchOperation, JsonValue, isJsonObject } from './types.js';
+
+// Edits remembered per file; older ones are forgotten
+export const DEFAULT_HISTORY_SIZE = 50;
+
+// Changed locations named in an entry's summary
+const SUMMARY_LOCATIONS = 3;
+
+// One edit applied through the server, with the patches that redo and undo it
+export interface HistoryEntry {
+  id: number;
+  tool: string;
+  path?: string;
+  timestamp: string;
+  summary: string;
+  forward: JSONPatchOperation[];
+  inverse: JSONPatchOperation[];
+  // Hashes of the data before and after the edit, to notice edits made elsewhere
+  beforeHash: string;
+  afterHash: string;
+}
+
+interface FileHistory {
+  file: string;
+  nextId: number;
+  // Oldest first; undo takes from the end
+  done: HistoryEntry[];
+  // Most recently undone last; redo takes from the end
+  undone: HistoryEntry[];
+}
+
+export type HistoryListing = Pick<HistoryEntry, 'id' | 'tool' | 'path' | 'timestamp' | 'summary'> & { undone?: true };
+
+// Hash data regardless of key order, which formats such as TOML do not keep
+function hashData(data: JsonValue): string {
+  const sorted = JSON.stringify(data, (_key, value: JsonValue) =>
+    isJsonObject(value) ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]])) : value
+  );
+  return createHash('sha1').update(sorted).digest('hex');
+}
+
+// Describe a change briefly, e.g. "changed $.a, added $.b and 2 more"
+function summarize(before: JsonValue, after: JsonValue): string {
+  const changes = diffJSON(before, after);
+  const named = changes.slice(0, SUMMARY_LOCATIONS).map((change) => `${change.type} ${change.path}`);
+  const more = changes.length - named.length;
+  return more > 0 ? `${named.join(', ')} and ${more} more` : named.join(', ');
+}
+
+// Per-file undo/redo history of the edits applied through the server, kept
+// as patches in memory and, when `directory` is given, in one sidecar file per
+// edited file so it survives restarts
+export class EditHistory {
+  private files = new Map<string, FileHistory>();
+
+  constructor(private maxEntries: number = DEFAULT_HISTORY_SIZE, private directory?: string) {}
+
+  // Remember an edit that turned `before` into `after`. Edits undone before it
+  // can no longer be redone.
+  record(filePath: string, tool: string, path: string | undefined, before: JsonValue, after: JsonValue): void {
+    const forward = createJSONPatch(before, after);
+    if (forward.length === 0) {
+      return;
+    }
+    const history = this.get(filePath);
+    history.done.push({
+      id: history.nextId++,
+      tool,
+      ...(path === undefined ? {} : { path }),
+      timestamp: new Date().toISOString(),
+      summary: summarize(before, after),
+      forward,
+      inverse: createJSONPatch(after, before),
+      beforeHash: hashData(before),
+      afterHash: hashData(after),
+    });
+    history.done.splice(0, Math.max(0, history.done.length - this.maxEntries));
+    history.undone = [];
+    this.save(history);
+  }
+
+  // The data the last edit started from, given the current data. Call
+  // completeUndo once it has been written.
+  prepareUndo(filePath: string, current: JsonValue): { entry: HistoryEntry; data: JsonValue } {
+    const entry = this.get(filePath).done.at(-1);
+    if (!entry) {
+      throw new Error(`Nothing to undo for ${filePath}`);
+    }
+    return { entry, data: this.replay(entry, current, entry.afterHash, entry.inverse, entry.beforeHash, 'undo') };
+  }
+
+  completeUndo(filePath: string): void {
+    const history = this.get(filePath);
+    history.undone.push(history.done.pop()!);
+    this.save(history);
+  }
+
+  // The data the last undone edit produced, given the current data. Call
+  // completeRedo once it has been written.
+  prepareRedo(filePath: string, current: JsonValue): { entry: HistoryEntry; data: JsonValue } {
+    const entry = this.get(filePath).undone.at(-1);
+    if (!entry) {
+      throw new Error(`Nothing to redo for ${filePath}`);
+    }
+    return { entry, data: this.replay(entry, current, entry.beforeHash, entry.forward, entry.afterHash, 'redo') };
+  }
+
+  completeRedo(filePath: string): void {
+    const history = this.get(filePath);
+    history.done.push(history.undone.pop()!);
+    this.save(history);
+  }
+
+  // Recent edits, newest first, starting with those undone (which redo would reapply)
+  list(filePath: string, limit: number): { entries: HistoryListing[]; canUndo: boolean; canRedo: boolean } {
+    const history = this.get(filePath);
+    const describe = ({ id, tool, path, timestamp, summary }: HistoryEntry): HistoryListing => ({
+      id,
+      tool,
+      ...(path === undefined ? {} : { path }),
+      timestamp,
+      summary,
+    });
+    const entries = [
+      ...history.undone.map((entry) => ({ ...describe(entry), undone: true as const })),
+      ...[...history.done].reverse().map(describe),
+    ];
+    return { entries: entries.slice(0, limit), canUndo: history.done.length > 0, canRedo: history.undone.length > 0 };
+  }
+
+  // Apply one of an entry's patches, refusing when the file no longer holds
+  // the data the patch was made for
+  private replay(
+    entry: HistoryEntry,
+    current: JsonValue,
+    expectedHash: string,
+    patch: JSONPatchOperation[],
+    resultHash: string,
+    action: string
+  ): JsonValue {
+    if (hashData(current) !== expectedHash) {
+      throw new Error(
+        `Cannot ${action} ${entry.tool} from ${entry.timestamp}: the file has changed since, and ${action} would overwrite those changes`
+      );
+    }
+    const data = applyJSONPatch(current, patch);
+    if (hashData(data) !== resultHash) {
+      throw new Error(`Cannot ${action} ${entry.tool} from ${entry.timestamp}: its patch did not reproduce the recorded data`);
+    }
+    return data;
+  }
+
+  private sidecarPath(file: string): string {
+    return join(this.directory!, `${createHash('sha1').update(file).digest('hex')}.json`);
+  }
+
+  private get(filePath: string): FileHistory {
+    const file = resolve(filePath);
+    let history = this.files.get(file);
+    if (!history) {
+      history = { file, nextId: 1, done: [], undone: [] };
+      if (this.directory && existsSync(this.sidecarPath(file))) {
+        try {
+          history = JSON.parse(readFileSync(this.sidecarPath(file), 'utf-8')) as FileHistory;
+        } catch (error) {
+          throw new Error(`Failed to read edit history of ${file}: ${error}`);
+        }
+      }
+      this.files.set(file, history);
+    }
+    return history;
+  }
+
+  private save(history: FileHistory): void {
+    if (!this.directory) {
+      return;
+    }
+    try {
+      mkdirSync(this.directory, { recursive: true });
+      writeFileAtomic(this.sidecarPath(history.file), JSON.stringify(history));
+    } catch (error) {
+      throw new Error(`Failed to write edit history of ${history.file}: ${error}`);
+    }
+  }
+}
@@ -4,19 +4,79 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { relative } from 'path';
 import {
   searchInJSON,
+  searchInSubtrees,
+  queryMatches,
   queryByPath,
+  resolveLocation,
   appendToArrayAtPath,
   setAtPath,
   deleteAtPath,
-  readJSONFile,
-  writeJSONFile,
+  parseIndent,
 } from './tools.js';
-import { JsonValueSchema } from './types.js';
+import { detectDocumentFormat, locateMatches, parseDocumentFormat, saveDocument } from './formats.js';
+import { shouldStream, streamQuery, streamSearch } from './stream.js';
+import { DocumentCache } from './cache.js';
+import { paginate, paginateFiles, parsePageOptions, FileMatches } from './pagination.js';
+import { findFiles, parseFileSelection, splitGlob, FileSelection, MAX_FILES_LIMIT } from './files.js';
+import { addSearchContext, parseContextDepth } from './context.js';
+import { parseSearchOptions } from './matcher.js';
+import { aggregate, parseAggregateOptions } from './aggregate.js';
+import { describeValues, parseDescribeOptions } from './infer.js';
+import { formatResult, parseResultShape, shapeMatches, ResultShape } from './projection.js';
+import { parseServerOptions } from './config.js';
+import { Sandbox } from './sandbox.js';
+import { checkIfMatch, computeETag, fileETag, parseIfMatch } from './etag.js';
+import { DEFAULT_HISTORY_SIZE, EditHistory } from './history.js';
+import { RESOURCE_TEMPLATE, ResourceSubscriptions, formatResourceUri, parseResourceUri, selectFragment } from './resources.js';
+import { diffJSON } from './diff.js';
+import { assertValid, resolveSchema, validateData } from './schema.js';
+import { applyOperations, parseOperations } from './patch.js';
+import { applyJSONPatch, applyMergePatch, createJSONPatch, parseJSONPatch } from './jsonpatch.js';
+import {
+  AGGREGATE_OPERATIONS,
+  DESCRIBE_OUTPUTS,
+  DOCUMENT_FORMATS,
+  DocumentFormat,
+  JSONDocument,
+  JSONMatch,
+  JsonValue,
+  JsonValueSchema,
+  Location,
+  RESULT_TYPES,
+  SEARCH_MODES,
+  SEARCH_SCOPES,
+  SEARCH_TYPES,
+  SearchOptions,
+} from './types.js';
+
+const options = parseServerOptions(process.argv.slice(2), process.env);
+
+// Directories the tools may access
+const sandbox = new Sandbox(options.roots);
+
+// Tools that write files; hidden and refused in read-only mode
+const MUTATING_TOOLS = new Set(['appendToArray', 'set', 'delete', 'patch', 'jsonPatch', 'mergePatch', 'undo', 'redo']);
+
+// Edits applied through the server, per file, for undo and redo
+const history = new EditHistory(DEFAULT_HISTORY_SIZE, options.historyDir);
+
+// Rotated backups kept of each file before it is overwritten
+const backups = options.backups;
+
+// Parsed documents shared by all tool calls
+const documentCache = new DocumentCache(options.cacheSizeMB * 1024 * 1024);
 
 // Create server instance
 const server = new Server(
@@ -27,46 +87,211 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true },
     },
   }
 );
 
+// Subscribed resources; updates are dropped once the client has gone away
+const subscriptions = new ResourceSubscriptions((uri) => {
+  server.sendResourceUpdated({ uri }).catch(() => undefined);
+});
+
+const pointerProperty = {
+  type: 'string',
+  description: 'RFC 6901 JSON Pointer (e.g., "/store/book/0"), as an alternative to path for keys containing dots, brackets or quotes',
+};
+
+const formatProperty = {
+  type: 'string',
+  enum: [...DOCUMENT_FORMATS],
+  description:
+    'File format. Detected from the file name when omitted: .yaml/.yml are YAML (a stream of several documents is an array of documents), .toml is TOML; .jsonl/.ndjson are JSON Lines (an array of records; matches report their line); .jsonc, tsconfig/jsconfig, devcontainer and .vscode files are JSONC (comments and trailing commas allowed, edits keep them); others JSON',
+};
+
+const indentProperty = {
+  type: ['integer', 'string'],
+  description:
+    'Indentation for the written file: number of spaces (0 for a single line) or a whitespace string such as "\\t". ' +
+    "Defaults to the file's existing indentation",
+};
+
+const schemaProperty = {
+  type: ['object', 'boolean', 'string'],
+  description:
+    'JSON Schema the file must still match after the edit, given inline, as a schema file path, or as "$schema" for the file named by the document\'s $schema field. Edits that would leave the file invalid are rejected',
+};
+
+const ifMatchProperty = {
+  type: 'string',
+  description:
+    'etag returned by an earlier search or query of the file. The edit is refused with a conflict error when the file has changed since',
+};
+
+const dryRunProperty = {
+  type: 'boolean',
+  description: 'If true, do not write the file; return a structural diff of the changes instead (default: false)',
+};
+
+const streamProperty = {
+  type: 'boolean',
+  description:
+    'Read the file incrementally instead of loading it, for very large JSON files. Defaults to true for JSON files of 256 MB or more. Streaming queries support names, *, indices, slices and simple filters like [?(@.price > 10)]',
+};
+
+// Paging arguments shared by search and query
+const pageProperties = {
+  limit: {
+    type: 'integer',
+    minimum: 1,
+    description: 'Maximum number of matches to return (default: as many as fit in maxBytes)',
+  },
+  offset: {
+    type: 'integer',
+    minimum: 0,
+    description: 'Number of matches to skip (alternative to cursor)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'nextCursor from a previous response, to fetch the next page',
+  },
+  maxBytes: {
+    type: 'integer',
+    minimum: 1,
+    description:
+      'Budget for the serialized matches of one page (default: 65536). A match that alone exceeds it is returned without its value',
+  },
+};
+
+// Arguments for searching or querying many files at once instead of one file
+const fileSelectionProperties = {
+  glob: {
+    type: 'string',
+    description:
+      'Glob selecting the files to read instead of file, e.g. "packages/*/package.json" or "config/**/*.{yaml,yml}". Results are grouped by file',
+  },
+  directory: {
+    type: 'string',
+    description: 'Directory whose files to read instead of file (recursively; node_modules and .git are skipped). Results are grouped by file',
+  },
+  include: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'Glob patterns, relative to the directory (or the fixed part of glob), that files must match (default for directory: all JSON, JSONC, JSON Lines, YAML and TOML files)',
+  },
+  exclude: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Glob patterns, relative to the directory (or the fixed part of glob), of files to skip, e.g. ["**/dist/**"]',
+  },
+  maxFiles: {
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_FILES_LIMIT,
+    description: 'Most files to read (default: 100); fileLimitReached tells when more were selected',
+  },
+};
+
 // Define tools
 const tools: Tool[] = [
   {
     name: 'search',
-    description: 'Search JSON data by simple text and return JSONPaths with context around matching elements',
+    description:
+      'Search JSON data by simple text and return the JSONPath and JSON Pointer of each matching element, with its parent path and sibling keys. ' +
+      'Searches one file, or many selected by glob or directory. Results are paged: the response has total, count, truncated, nextCursor and results ' +
+      '(for many files, files grouping the results by file, and errors listing files that could not be read)',
     inputSchema: {
       type: 'object',
       properties: {
         file: {
           type: 'string',
-          description: 'Path to the JSON file to search',
+          description: 'Path to the JSON file to search (or use glob or directory)',
         },
         searchText: {
           type: 'string',
           description: 'Text to search for in the JSON data',
         },
+        path: {
+          type: 'string',
+          description: 'Only search inside the nodes selected by this JSONPath (e.g., "$.services[*].env"); reported paths stay absolute',
+        },
+        pointer: {
+          ...pointerProperty,
+          description: 'Only search inside the node at this RFC 6901 JSON Pointer (alternative to path)',
+        },
+        mode: {
+          type: 'string',
+          enum: [...SEARCH_MODES],
+          description:
+            'How to compare: substring (default), regex, exact (whole value), word (whole words) or fuzzy (tolerates one typo per four characters)',
+        },
+        caseSensitive: {
+          type: 'boolean',
+          description: 'Match case exactly (default: false)',
+        },
+        scope: {
+          type: 'string',
+          enum: [...SEARCH_SCOPES],
+          description: 'Search values (default), property names (keys) or both. Key matches are marked with matchedOn: "key"',
+        },
+        types: {
+          type: 'array',
+          items: { type: 'string', enum: [...SEARCH_TYPES] },
+          description: 'Only report matches whose value has one of these types, e.g. ["number"]. null values are searched only when "null" is listed',
+        },
+        contextDepth: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 10,
+          description:
+            'Also return the enclosing object or array of each match as "context", trimmed to this many levels, with long arrays elided (default: 0, no context). Not available when streaming',
+        },
+        format: formatProperty,
+        stream: streamProperty,
+        ...fileSelectionProperties,
+        ...pageProperties,
       },
-      required: ['file', 'searchText'],
+      required: ['searchText'],
     },
   },
   {
     name: 'query',
-    description: 'Query JSON data by JSONPath and return matching elements',
+    description:
+      'Query JSON data by JSONPath (or JSON Pointer) and return matching elements with their JSONPath and JSON Pointer. ' +
+      'Queries one file, or many selected by glob or directory. Results are paged: the response has total, count, truncated, nextCursor and results ' +
+      '(for many files, files grouping the results by file, and errors listing files that could not be read)',
     inputSchema: {
       type: 'object',
       properties: {
         file: {
           type: 'string',
-          description: 'Path to the JSON file to query',
+          description: 'Path to the JSON file to query (or use glob or directory)',
         },
         path: {
           type: 'string',
           description: 'JSONPath expression (e.g., "$.store.book[*].author")',
         },
+        pointer: pointerProperty,
+        resultType: {
+          type: 'string',
+          enum: [...RESULT_TYPES],
+          description:
+            'What to return for each match: all (default; path, pointer and value), value, path or pointer alone, or parent (the object or array containing the match, once per parent)',
+        },
+        projection: {
+          type: ['array', 'object'],
+          items: { type: 'string' },
+          additionalProperties: { type: 'string' },
+          description:
+            'Return only these sub-paths of each matched value: a list like ["id", "owner.name"] or a map of output names to sub-paths like { "owner": "owner.name" }. ' +
+            'Sub-paths with wildcards or filters return arrays; missing ones are left out',
+        },
+        format: formatProperty,
+        stream: streamProperty,
+        ...fileSelectionProperties,
+        ...pageProperties,
       },
-      required: ['file', 'path'],
     },
   },
   {
@@ -83,11 +308,17 @@ const tools: Tool[] = [
           type: 'string',
           description: 'JSONPath expression that selects array node(s) to append into (e.g., "$.items")',
         },
+        pointer: pointerProperty,
         value: {
           description: 'New value to append',
         },
+        format: formatProperty,
+        indent: indentProperty,
+        schema: schemaProperty,
+        ifMatch: ifMatchProperty,
+        dryRun: dryRunProperty,
       },
-      required: ['file', 'path', 'value'],
+      required: ['file', 'value'],
     },
   },
   {
@@ -98,10 +329,22 @@ const tools: Tool[] = [
       properties: {
         file: { type: 'string', description: 'Path to the JSON file to modify' },
         path: { type: 'string', description: 'JSONPath to set (supports simple dotted/bracket property forms for creation)' },
+        pointer: pointerProperty,
         value: { description: 'Value to set' },
         all: { type: 'boolean', description: 'If true, update all matching nodes. If false or omitted, update only the first match (default: false)' },
+        createParents: {
+          type: 'boolean',
+          description:
+            'If true, create missing intermediate objects (or arrays, for index segments like [0]) along the path. ' +
+            'Requires a concrete path without wildcards, filters or recursive descent (default: false)',
+        },
+        format: formatProperty,
+        indent: indentProperty,
+        schema: schemaProperty,
+        ifMatch: ifMatchProperty,
+        dryRun: dryRunProperty,
       },
-      required: ['file', 'path', 'value'],
+      required: ['file', 'value'],
     },
   },
   {
@@ -118,110 +361,894 @@ const tools: Tool[] = [
           type: 'string',
           description: 'JSONPath expression pointing to the element to delete',
         },
+        pointer: pointerProperty,
+        format: formatProperty,
+        indent: indentProperty,
+        schema: schemaProperty,
+        ifMatch: ifMatchProperty,
+        dryRun: dryRunProperty,
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'patch',
+    description:
+      'Apply an ordered list of operations to a JSON file as a single unit. The file is written once, only if every operation succeeds.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the JSON file to modify',
+        },
+        operations: {
+          type: 'array',
+          description:
+            'Operations applied in order. Each is one of: ' +
+            '{op:"set", path, value, all?, createParents?}, {op:"delete", path}, {op:"append", path, value}, ' +
+            '{op:"insert", path, index, value}, {op:"move", from, path}, {op:"copy", from, path}. ' +
+            'Paths are JSONPath expressions; use pointer/fromPointer instead of path/from for JSON Pointers. ' +
+            'move/copy sources must match exactly one node. move removes the source first and inserts into arrays (indices refer to the array after removal; "-" appends).',
+          items: {
+            type: 'object',
+            properties: {
+              op: { type: 'string', enum: ['set', 'delete', 'append', 'insert', 'move', 'copy'] },
+              path: { type: 'string' },
+              pointer: { type: 'string' },
+              from: { type: 'string' },
+              fromPointer: { type: 'string' },
+              value: {},
+              index: { type: 'integer' },
+              all: { type: 'boolean' },
+              createParents: { type: 'boolean' },
+            },
+            required: ['op'],
+          },
+        },
+        format: formatProperty,
+        indent: indentProperty,
+        schema: schemaProperty,
+        ifMatch: ifMatchProperty,
+        dryRun: dryRunProperty,
+      },
+      required: ['file', 'operations'],
+    },
+  },
+  {
+    name: 'jsonPatch',
+    description: 'Apply an RFC 6902 JSON Patch document to a JSON file. All operations (including "test") must succeed for the file to be written.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the JSON file to modify',
+        },
+        patch: {
+          type: 'array',
+          description: 'RFC 6902 operations, e.g. [{"op":"test","path":"/version","value":1},{"op":"replace","path":"/version","value":2}]',
+          items: { type: 'object' },
+        },
+        format: formatProperty,
+        indent: indentProperty,
+        schema: schemaProperty,
+        ifMatch: ifMatchProperty,
+        dryRun: dryRunProperty,
+      },
+      required: ['file', 'patch'],
+    },
+  },
+  {
+    name: 'mergePatch',
+    description: 'Apply an RFC 7396 JSON Merge Patch to a JSON file: objects are merged recursively and null removes a member',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the JSON file to modify',
+        },
+        patch: {
+          description: 'Merge patch document, e.g. {"settings":{"timeout":60,"legacy":null}}',
+        },
+        format: formatProperty,
+        indent: indentProperty,
+        schema: schemaProperty,
+        ifMatch: ifMatchProperty,
+        dryRun: dryRunProperty,
+      },
+      required: ['file', 'patch'],
+    },
+  },
+  {
+    name: 'generatePatch',
+    description: 'Generate an RFC 6902 JSON Patch that turns a JSON file into another file or into a candidate value',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the source JSON file',
+        },
+        otherFile: {
+          type: 'string',
+          description: 'Path to the target JSON file',
+        },
+        value: {
+          description: 'Target value to compare against (alternative to otherFile)',
+        },
+        format: formatProperty,
       },
-      required: ['file', 'path'],
+      required: ['file'],
+    },
+  },
+  {
+    name: 'validate',
+    description:
+      'Validate a file against a JSON Schema, given inline, as a schema file path, or taken from the document\'s $schema field. Returns valid and a list of errors with their JSON Pointer and JSONPath',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the file to validate',
+        },
+        schema: {
+          type: ['object', 'boolean', 'string'],
+          description:
+            'JSON Schema object, or path to a JSON or YAML schema file. Defaults to the file named by the document\'s $schema field (resolved relative to the document; remote URLs are not fetched)',
+        },
+        format: formatProperty,
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'describe',
+    description:
+      'Summarize the structure of a file (or of the nodes a JSONPath selects) without returning its data: keys, types, which properties are optional, array lengths, number ranges, string formats and example values, or the same as an inferred JSON Schema (draft 2020-12). Array items are merged into one shape. Streaming skips the rest of the file, but every node the path selects is still built in memory (the whole document for the default $), so on very large files select parts that fit in memory',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the file to describe',
+        },
+        path: {
+          type: 'string',
+          description: 'JSONPath of the nodes to describe (default: the whole document); several matches are merged into one shape',
+        },
+        pointer: pointerProperty,
+        output: {
+          type: 'string',
+          enum: [...DESCRIBE_OUTPUTS],
+          description: 'summary (default) or schema, an inferred JSON Schema (draft 2020-12)',
+        },
+        sampleSize: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Most items inspected per array, spread evenly over longer arrays (default: 1000)',
+        },
+        format: formatProperty,
+        stream: streamProperty,
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'aggregate',
+    description:
+      'Compute count, sum, avg, min, max, distinct values and histograms over the nodes selected by a JSONPath, optionally grouped by a sub-path, without returning the nodes. When streaming, all selected nodes are still built in memory at once, so on very large files select nodes that fit in memory together',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the JSON file to read',
+        },
+        path: {
+          type: 'string',
+          description: 'JSONPath selecting the nodes to aggregate (e.g., "$.orders[*]")',
+        },
+        pointer: pointerProperty,
+        field: {
+          type: 'string',
+          description:
+            'Sub-path of each selected node to aggregate, e.g. "price" or "items[*].qty" (default: the node itself). Numeric statistics skip values that are not numbers and report them as nonNumeric',
+        },
+        groupBy: {
+          type: 'string',
+          description: 'Sub-path of each selected node to group by, e.g. "status". Groups are listed largest first; nodes without it form the null group',
+        },
+        operations: {
+          type: 'array',
+          items: { type: 'string', enum: [...AGGREGATE_OPERATIONS] },
+          description:
+            'Statistics to compute (default: count, sum, avg, min, max; count is always reported). histogram bins numbers into equal-width ranges, or counts each value when there are no numbers',
+        },
+        bins: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Number of histogram bins for numbers (default: 10)',
+        },
+        maxGroups: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Most groups to return (default: 100); totalGroups tells how many there are',
+        },
+        format: formatProperty,
+        stream: streamProperty,
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'undo',
+    description:
+      'Revert the most recent edit made to a file through this server. Refused when the file has changed since, by another program or an edit not made here',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the file whose last edit to revert',
+        },
+        dryRun: dryRunProperty,
+        indent: indentProperty,
+        ifMatch: ifMatchProperty,
+        format: formatProperty,
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'redo',
+    description: 'Reapply the most recently undone edit of a file. A new edit after undo discards what could be redone',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the file whose undone edit to reapply',
+        },
+        dryRun: dryRunProperty,
+        indent: indentProperty,
+        ifMatch: ifMatchProperty,
+        format: formatProperty,
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'history',
+    description:
+      'List recent edits made to a file through this server, newest first, with the tool, path, time and a short summary of each; undone edits (which redo would reapply) come first and are marked undone',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          description: 'Path to the file whose edits to list',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Maximum number of edits to list (default: 20)',
+        },
+      },
+      required: ['file'],
+    },
+  },
+  {
+    name: 'cacheStats',
+    description: 'Report hits, misses, evictions and memory use of the parsed-document cache',
+    inputSchema: {
+      type: 'object',
+      properties: {},
     },
   },
 ];
 
+interface CommitOptions {
+  dryRun?: boolean;
+  indent?: unknown;
+  schema?: unknown;
+  ifMatch?: unknown;
+  // Tool and path recorded in the file's history; undo and redo record nothing
+  tool?: string;
+  path?: string;
+  // Reply once written, instead of "File updated successfully"
+  message?: string;
+  // History bookkeeping once written, for undo and redo
+  afterWrite?: () => void;
+}
+
+// Write a mutated document back to disk, or report what would change when dryRun is set.
+// An edit of a file changed since the ifMatch etag, or that would leave the
+// document invalid against the schema, is rejected either way.
+function commitChange(document: JSONDocument, updated: JsonValue, options: CommitOptions) {
+  const indent = options.indent === undefined ? undefined : parseIndent(options.indent);
+  const ifMatch = parseIfMatch(options.ifMatch);
+  if (ifMatch !== undefined) {
+    checkIfMatch(document, ifMatch);
+  }
+  if (options.schema !== undefined) {
+    assertValid(updated, resolveSchema(options.schema, document, readSchemaFile));
+  }
+  if (options.dryRun) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ dryRun: true, changes: diffJSON(document.data, updated) }, null, 2),
+        },
+      ],
+    };
+  }
+
+  documentCache.update(saveDocument(document, updated, { indent, backups }));
+  subscriptions.changed(document.filePath);
+  // The file is written by now, so a history failure is only a warning: an
+  // error would invite a retry that applies the edit twice
+  let warning = '';
+  try {
+    if (options.tool !== undefined) {
+      history.record(document.filePath, options.tool, options.path, document.data, updated);
+    }
+    options.afterWrite?.();
+  } catch (error) {
+    warning = `. Warning: ${error instanceof Error ? error.message : error} (the history is kept in memory only)`;
+  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: (options.message ?? 'File updated successfully') + warning,
+      },
+    ],
+  };
+}
+
+interface SearchRequest {
+  searchText: string;
+  location?: Location;
+  format?: DocumentFormat;
+  stream?: unknown;
+  contextDepth?: unknown;
+  searchOptions: SearchOptions;
+}
+
+// Search one file; `expand` adds context to the matches that make it onto a page
+function searchFile(
+  file: string,
+  request: SearchRequest
+): { matches: JSONMatch[]; etag: string; expand?: (match: JSONMatch) => JSONMatch } {
+  const { searchText, location, searchOptions } = request;
+  const documentFormat = request.format ?? detectDocumentFormat(file);
+  if (shouldStream(file, documentFormat, request.stream)) {
+    if (request.contextDepth !== undefined) throw new Error('contextDepth is not supported when streaming');
+    const matches = location
+      ? searchInSubtrees(streamQuery(file, location), searchText, searchOptions)
+      : streamSearch(file, searchText, searchOptions);
+    return { matches, etag: fileETag(file) };
+  }
+  const document = documentCache.load(file, documentFormat);
+  const matches = location
+    ? searchInSubtrees(queryMatches(document.data, location), searchText, searchOptions)
+    : searchInJSON(document.data, searchText, '$', searchOptions);
+  const depth = parseContextDepth(request.contextDepth);
+  return {
+    matches: locateMatches(document, matches),
+    etag: computeETag(document.text),
+    expand: (match) => addSearchContext(document.data, match, depth),
+  };
+}
+
+// Query one file, shaping the matches by resultType and projection
+function queryFile(
+  file: string,
+  location: Location,
+  format: DocumentFormat | undefined,
+  stream: unknown,
+  shape: ResultShape
+): { matches: JSONMatch[]; etag: string } {
+  const documentFormat = format ?? detectDocumentFormat(file);
+  if (shouldStream(file, documentFormat, stream)) {
+    return { matches: shapeMatches(streamQuery(file, location), shape), etag: fileETag(file) };
+  }
+  const document = documentCache.load(file, documentFormat);
+  return {
+    matches: locateMatches(document, shapeMatches(queryMatches(document.data, location), shape, document.data)),
+    etag: computeETag(document.text),
+  };
+}
+
+// Run a search or query on every selected file. A file that cannot be read or
+// parsed is listed in `errors` instead of failing the whole call; `etags` has
+// the version token of each file read.
+function runOnFiles<T extends { matches: JSONMatch[]; etag: string }>(
+  selection: FileSelection,
+  run: (file: string, format: DocumentFormat) => T
+) {
+  const { files, limitReached } = findFiles(selection);
+  const results: Array<T & FileMatches> = [];
+  const errors: Array<{ file: string; error: string }> = [];
+  for (const file of files) {
+    try {
+      results.push({ ...run(sandbox.check(file), detectDocumentFormat(file)), file });
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  const etags = Object.fromEntries(results.map((result) => [result.file, result.etag]));
+  return { results, errors, filesRead: files.length, fileLimitReached: limitReached, etags };
+}
+
+// Check that exactly one of file, glob and directory was given
+function requireOneSource(file: unknown, selection: FileSelection): void {
+  const sources = [file, selection.glob, selection.directory].filter((source) => source !== undefined).length;
+  if (sources === 0) throw new Error('Missing required parameter: file (or glob or directory)');
+  if (sources > 1) throw new Error('Specify only one of file, glob or directory');
+}
+
+// Check that the files and directories named by a tool call are inside the
+// allowed roots, and return the arguments with their real paths for the
+// handlers to use. The format is still detected from the name given, not the
+// symlink's target. Schema files, otherFile and files found by glob or
+// directory are checked when they are read.
+function resolvePathArguments(args: Record<string, unknown>): Record<string, unknown> {
+  const resolved = { ...args };
+  if (typeof args.file === 'string') {
+    resolved.file = sandbox.check(args.file);
+    resolved.format = args.format ?? detectDocumentFormat(args.file);
+  }
+  if (typeof args.directory === 'string') resolved.directory = sandbox.check(args.directory);
+  if (typeof args.glob === 'string') sandbox.check(splitGlob(args.glob).base);
+  return resolved;
+}
+
+// Read a file through the cache, within the allowed roots
+function loadCheckedFile(filePath: string): JSONDocument {
+  return documentCache.load(sandbox.check(filePath), detectDocumentFormat(filePath));
+}
+
+// Read a schema file through the cache, within the allowed roots
+function readSchemaFile(filePath: string): JsonValue {
+  return loadCheckedFile(filePath).data;
+}
+
 // Handle list tools request
 server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
+  return { tools: options.readOnly ? tools.filter((tool) => !MUTATING_TOOLS.has(tool.name)) : tools };
+});
+
+// List the JSON, JSONC, JSON Lines, YAML and TOML files below the allowed roots
+// (none when the server was started without roots)
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  const resources: Resource[] = options.roots.flatMap((root) =>
+    findFiles({ directory: root, maxFiles: MAX_FILES_LIMIT }).files.map((file) => ({
+      uri: formatResourceUri(file),
+      name: relative(root, file),
+      mimeType: 'application/json',
+    }))
+  );
+  return { resources };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: RESOURCE_TEMPLATE,
+        name: 'JSON sub-tree',
+        description:
+          'Part of a JSON, JSONC, JSON Lines, YAML or TOML file: the value at a JSON Pointer (e.g., "/store/book/0") or the array of values matching a JSONPath (e.g., "$.store.book[*].title")',
+        mimeType: 'application/json',
+      },
+    ],
+  };
+});
+
+// Read a file, or the part of it the URI fragment selects, as JSON
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  const { uri } = request.params;
+  const { file, fragment } = parseResourceUri(uri);
+  const document = loadCheckedFile(file);
+  return {
+    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(selectFragment(document.data, fragment), null, 2) }],
+  };
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  subscriptions.subscribe(uri, sandbox.check(parseResourceUri(uri).file));
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  const { uri } = request.params;
+  subscriptions.unsubscribe(uri, sandbox.check(parseResourceUri(uri).file));
+  return {};
 });
 
 // Handle tool calls
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  const { name } = request.params;
 
   try {
+    if (options.readOnly && MUTATING_TOOLS.has(name)) {
+      throw new Error(`${name} is not available: the server is in read-only mode`);
+    }
+    const args = resolvePathArguments(request.params.arguments ?? {});
+
     switch (name) {
       case 'search': {
-        const { file, searchText } = args as { file: string; searchText: string };
-        if (file === undefined) throw new Error("Missing required parameter: file");
+        const { file, searchText, path, pointer, format, stream, contextDepth, mode, caseSensitive, scope, types, glob, directory, include, exclude, maxFiles, ...paging } = args as {
+          file?: string;
+          searchText: string;
+          path?: string;
+          pointer?: string;
+          format?: unknown;
+          stream?: unknown;
+          contextDepth?: unknown;
+          mode?: unknown;
+          caseSensitive?: unknown;
+          scope?: unknown;
+          types?: unknown;
+          glob?: unknown;
+          directory?: unknown;
+          include?: unknown;
+          exclude?: unknown;
+          maxFiles?: unknown;
+          limit?: unknown;
+          offset?: unknown;
+          cursor?: unknown;
+          maxBytes?: unknown;
+        };
+        const selection = parseFileSelection({ glob, directory, include, exclude, maxFiles });
+        requireOneSource(file, selection);
         if (searchText === undefined) throw new Error("Missing required parameter: searchText");
-        const data = readJSONFile(file);
-        const results = searchInJSON(data, searchText);
+        const pageOptions = parsePageOptions(paging);
+        // Validated up front so a bad value is not reported once per file
+        parseContextDepth(contextDepth);
+        const request: SearchRequest = {
+          searchText,
+          location: path === undefined && pointer === undefined ? undefined : resolveLocation(path, pointer),
+          format: parseDocumentFormat(format),
+          stream,
+          contextDepth,
+          searchOptions: parseSearchOptions({ mode, caseSensitive, scope, types }),
+        };
+        let page;
+        if (file !== undefined) {
+          const { matches, etag, expand } = searchFile(file, request);
+          page = { ...paginate(matches, pageOptions, expand), etag };
+        } else {
+          const { results, ...summary } = runOnFiles(selection, (selected, detected) =>
+            searchFile(selected, { ...request, format: request.format ?? detected })
+          );
+          const expanders = new Map(results.map((result) => [result.file, result.expand]));
+          page = {
+            ...paginateFiles(results, pageOptions, (selected, match) => expanders.get(selected)?.(match) ?? match),
+            ...summary,
+          };
+        }
         
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(results, null, 2),
+              text: JSON.stringify(page, null, 2),
             },
           ],
         };
       }
 
       case 'query': {
-        const { file, path } = args as { file: string; path: string };
-        if (file === undefined) throw new Error("Missing required parameter: file");
-        if (path === undefined) throw new Error("Missing required parameter: path");
-        const data = readJSONFile(file);
-        const results = queryByPath(data, path);
+        const { file, path, pointer, resultType, projection, format, stream, glob, directory, include, exclude, maxFiles, ...paging } = args as {
+          file?: string;
+          path?: string;
+          pointer?: string;
+          resultType?: unknown;
+          projection?: unknown;
+          format?: unknown;
+          stream?: unknown;
+          glob?: unknown;
+          directory?: unknown;
+          include?: unknown;
+          exclude?: unknown;
+          maxFiles?: unknown;
+          limit?: unknown;
+          offset?: unknown;
+          cursor?: unknown;
+          maxBytes?: unknown;
+        };
+        const selection = parseFileSelection({ glob, directory, include, exclude, maxFiles });
+        requireOneSource(file, selection);
+        const location = resolveLocation(path, pointer);
+        const pageOptions = parsePageOptions(paging);
+        const shape = parseResultShape({ resultType, projection });
+        const documentFormat = parseDocumentFormat(format);
+        const toResult = formatResult(shape.resultType);
+        let page;
+        if (file !== undefined) {
+          const { matches, etag } = queryFile(file, location, documentFormat, stream, shape);
+          page = { ...paginate(matches, pageOptions, toResult), etag };
+        } else {
+          const { results, ...summary } = runOnFiles(selection, (selected, detected) =>
+            queryFile(selected, location, documentFormat ?? detected, stream, shape)
+          );
+          page = { ...paginateFiles(results, pageOptions, (_selected, match) => toResult(match)), ...summary };
+        }
         
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(results, null, 2),
+              text: JSON.stringify(page, null, 2),
             },
           ],
         };
       }
 
       case 'appendToArray': {
-        const { file, path, value } = args as { file: string; path: string; value: unknown };
+        const { file, path, pointer, value, dryRun, indent, schema, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          path?: string;
+          pointer?: string;
+          value: unknown;
+          dryRun?: boolean;
+          indent?: unknown;
+          schema?: unknown;
+          ifMatch?: unknown;
+        };
         if (file === undefined) throw new Error("Missing required parameter: file");
-        if (path === undefined) throw new Error("Missing required parameter: path");
+        const location = resolveLocation(path, pointer);
         if (value === undefined) throw new Error("Missing required parameter: value");
-        const data = readJSONFile(file);
+        const document = documentCache.load(file, parseDocumentFormat(format));
         const validatedValue = JsonValueSchema.parse(value);
-        const result = appendToArrayAtPath(data, path, validatedValue);
-        writeJSONFile(file, result);
+        const result = appendToArrayAtPath(document.data, location, validatedValue);
+        return commitChange(document, result, { dryRun, indent, schema, ifMatch, tool: name, path: path ?? pointer });
+      }
+
+      case 'set': {
+        const { file, path, pointer, value, all, createParents, dryRun, indent, schema, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          path?: string;
+          pointer?: string;
+          value: unknown;
+          all?: boolean;
+          createParents?: boolean;
+          dryRun?: boolean;
+          indent?: unknown;
+          schema?: unknown;
+          ifMatch?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        const location = resolveLocation(path, pointer);
+        if (value === undefined) throw new Error('Missing required parameter: value');
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const validatedValue = JsonValueSchema.parse(value);
+        const result = setAtPath(document.data, location, validatedValue, all ?? false, createParents ?? false);
+        return commitChange(document, result, { dryRun, indent, schema, ifMatch, tool: name, path: path ?? pointer });
+      }
+
+      case 'delete': {
+        const { file, path, pointer, dryRun, indent, schema, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          path?: string;
+          pointer?: string;
+          dryRun?: boolean;
+          indent?: unknown;
+          schema?: unknown;
+          ifMatch?: unknown;
+        };
+        if (file === undefined) throw new Error("Missing required parameter: file");
+        const location = resolveLocation(path, pointer);
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const result = deleteAtPath(document.data, location);
+        return commitChange(document, result, { dryRun, indent, schema, ifMatch, tool: name, path: path ?? pointer });
+      }
+
+      case 'patch': {
+        const { file, operations, dryRun, indent, schema, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          operations: unknown;
+          dryRun?: boolean;
+          indent?: unknown;
+          schema?: unknown;
+          ifMatch?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        if (operations === undefined) throw new Error('Missing required parameter: operations');
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const result = applyOperations(document.data, parseOperations(operations));
+        return commitChange(document, result, { dryRun, indent, schema, ifMatch, tool: name });
+      }
+
+      case 'jsonPatch': {
+        const { file, patch, dryRun, indent, schema, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          patch: unknown;
+          dryRun?: boolean;
+          indent?: unknown;
+          schema?: unknown;
+          ifMatch?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        if (patch === undefined) throw new Error('Missing required parameter: patch');
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const result = applyJSONPatch(document.data, parseJSONPatch(patch));
+        return commitChange(document, result, { dryRun, indent, schema, ifMatch, tool: name });
+      }
+
+      case 'mergePatch': {
+        const { file, patch, dryRun, indent, schema, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          patch: unknown;
+          dryRun?: boolean;
+          indent?: unknown;
+          schema?: unknown;
+          ifMatch?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        if (patch === undefined) throw new Error('Missing required parameter: patch');
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const result = applyMergePatch(document.data, JsonValueSchema.parse(patch));
+        return commitChange(document, result, { dryRun, indent, schema, ifMatch, tool: name });
+      }
+
+      case 'generatePatch': {
+        const { file, otherFile, value, format } = args as {
+          file: string;
+          otherFile?: string;
+          value?: unknown;
+          format?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        if ((otherFile === undefined) === (value === undefined)) {
+          throw new Error('Exactly one of otherFile or value is required');
+        }
+        const { data } = documentCache.load(file, parseDocumentFormat(format));
+        const target = otherFile !== undefined ? loadCheckedFile(otherFile).data : JsonValueSchema.parse(value);
 
         return {
           content: [
             {
               type: 'text',
-              text: 'File updated successfully',
+              text: JSON.stringify(createJSONPatch(data, target), null, 2),
             },
           ],
         };
       }
 
-      case 'set': {
-        const { file, path, value, all } = args as { file: string; path: string; value: unknown; all?: boolean };
+      case 'validate': {
+        const { file, schema, format } = args as { file: string; schema?: unknown; format?: unknown };
         if (file === undefined) throw new Error('Missing required parameter: file');
-        if (path === undefined) throw new Error('Missing required parameter: path');
-        if (value === undefined) throw new Error('Missing required parameter: value');
-        const data = readJSONFile(file);
-        const validatedValue = JsonValueSchema.parse(value);
-        const result = setAtPath(data, path, validatedValue, all ?? false);
-        writeJSONFile(file, result);
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const resolved = resolveSchema(schema, document, readSchemaFile);
+        const errors = validateData(document.data, resolved.schema);
 
         return {
           content: [
             {
               type: 'text',
-              text: 'File updated successfully',
+              text: JSON.stringify({ valid: errors.length === 0, schema: resolved.source, errors }, null, 2),
             },
           ],
         };
       }
 
-      case 'delete': {
-        const { file, path } = args as { file: string; path: string };
+      case 'describe': {
+        const { file, path, pointer, output, sampleSize, format, stream } = args as {
+          file: string;
+          path?: string;
+          pointer?: string;
+          output?: unknown;
+          sampleSize?: unknown;
+          format?: unknown;
+          stream?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        const location = path === undefined && pointer === undefined ? '$' : resolveLocation(path, pointer);
+        const describeOptions = parseDescribeOptions({ output, sampleSize });
+        const documentFormat = parseDocumentFormat(format) ?? detectDocumentFormat(file);
+        const values = shouldStream(file, documentFormat, stream)
+          ? streamQuery(file, location).map((match) => match.value)
+          : queryByPath(documentCache.load(file, documentFormat).data, location);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(describeValues(values, describeOptions), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'aggregate': {
+        const { file, path, pointer, format, stream, ...aggregateArgs } = args as {
+          file: string;
+          path?: string;
+          pointer?: string;
+          format?: unknown;
+          stream?: unknown;
+          field?: unknown;
+          groupBy?: unknown;
+          operations?: unknown;
+          bins?: unknown;
+          maxGroups?: unknown;
+        };
         if (file === undefined) throw new Error("Missing required parameter: file");
-        if (path === undefined) throw new Error("Missing required parameter: path");
-        const data = readJSONFile(file);
-        const result = deleteAtPath(data, path);
-        writeJSONFile(file, result);
-        
+        const location = resolveLocation(path, pointer);
+        const aggregateOptions = parseAggregateOptions(aggregateArgs);
+        const documentFormat = parseDocumentFormat(format) ?? detectDocumentFormat(file);
+        const values = shouldStream(file, documentFormat, stream)
+          ? streamQuery(file, location).map((match) => match.value)
+          : queryByPath(documentCache.load(file, documentFormat).data, location);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(aggregate(values, aggregateOptions), null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'undo':
+      case 'redo': {
+        const { file, dryRun, indent, ifMatch, format } = args as {
+          file: string;
+          format?: unknown;
+          dryRun?: boolean;
+          indent?: unknown;
+          ifMatch?: unknown;
+        };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        const document = documentCache.load(file, parseDocumentFormat(format));
+        const undo = name === 'undo';
+        const { entry, data } = undo
+          ? history.prepareUndo(document.filePath, document.data)
+          : history.prepareRedo(document.filePath, document.data);
+        const message = `${undo ? 'Undid' : 'Redid'} ${entry.tool}${entry.path === undefined ? '' : ` at ${entry.path}`}: ${entry.summary}`;
+        const afterWrite = () => (undo ? history.completeUndo(document.filePath) : history.completeRedo(document.filePath));
+        return commitChange(document, data, { dryRun, indent, ifMatch, message, afterWrite });
+      }
+
+      case 'history': {
+        const { file, limit } = args as { file: string; limit?: unknown };
+        if (file === undefined) throw new Error('Missing required parameter: file');
+        const count = limit ?? 20;
+        if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) {
+          throw new Error('limit must be a positive integer');
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ file, ...history.list(file, count) }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'cacheStats': {
         return {
           content: [
             {
               type: 'text',
-              text: 'File updated successfully',
+              text: JSON.stringify(documentCache.stats(), null, 2),
             },
           ],
         };
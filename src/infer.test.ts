@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { describeValues, parseDescribeOptions } from './infer.js';
+import { validateData } from './schema.js';
+import { JsonValue } from './types.js';
+
+const data: JsonValue = {
+  users: [
+    { id: 1, email: 'ada@example.com', created: '2024-01-02T03:04:05Z', key: '3f2b8c1e-9d4a-4b7e-8f6a-1c2d3e4f5a6b' },
+    { id: 2.5, email: 'linus@example.org', nick: null, key: '8a1b2c3d-4e5f-4a6b-9c8d-7e6f5a4b3c2d' },
+  ],
+  version: '1.0',
+};
+
+describe('parseDescribeOptions', () => {
+  it('should apply defaults and validate arguments', () => {
+    expect(parseDescribeOptions({})).toEqual({ output: 'summary', sampleSize: 1000 });
+    expect(() => parseDescribeOptions({ output: 'yaml' })).toThrow(/output must be one of/);
+    expect(() => parseDescribeOptions({ sampleSize: 0 })).toThrow(/sampleSize must be a positive integer/);
+  });
+});
+
+describe('describeValues', () => {
+  it('should merge array items into one shape with optional properties', () => {
+    const summary = describeValues([data], parseDescribeOptions({})) as any;
+    expect(summary.properties.users).toMatchObject({ type: 'array', count: 1, length: { min: 2, max: 2 } });
+    const items = summary.properties.users.items;
+    expect(items).toMatchObject({ type: 'object', count: 2 });
+    expect(items.properties.id).toEqual({
+      type: 'number',
+      count: 2,
+      typeCounts: { integer: 1, number: 1 },
+      min: 1,
+      max: 2.5,
+      examples: [1, 2.5],
+    });
+    expect(items.properties.email).toMatchObject({ type: 'string', format: 'email', count: 2 });
+    expect(items.properties.created).toMatchObject({ format: 'date-time', optional: true });
+    expect(items.properties.key.format).toBe('uuid');
+    expect(items.properties.nick).toMatchObject({ type: 'null', optional: true });
+    expect(summary.properties.version.format).toBeUndefined();
+  });
+
+  it('should report mixed types and sample long arrays', () => {
+    const values = Array.from({ length: 50 }, (_, index) => (index % 2 === 0 ? index : `item ${index}`));
+    const summary = describeValues([values], parseDescribeOptions({ sampleSize: 10 })) as any;
+    expect(summary).toMatchObject({ type: 'array', length: { min: 50, max: 50 }, sampled: true });
+    expect(summary.items).toMatchObject({ type: ['integer', 'string'], count: 10, typeCounts: { integer: 5, string: 5 } });
+  });
+
+  it('should infer a JSON Schema that the data matches', () => {
+    const schema = describeValues([data], parseDescribeOptions({ output: 'schema' })) as any;
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.required).toEqual(['users', 'version']);
+    expect(schema.properties.users.items.required).toEqual(['id', 'email', 'key']);
+    expect(validateData(data, schema)).toEqual([]);
+    expect(validateData({ users: [{ id: 'x' }], version: '1' }, schema)).not.toEqual([]);
+  });
+
+  it('should refuse to describe nothing', () => {
+    expect(() => describeValues([], parseDescribeOptions({}))).toThrow(/matched no nodes/);
+  });
+});
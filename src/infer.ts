@@ -0,0 +1,219 @@
+import { DESCRIBE_OUTPUTS, DescribeOutput, JsonValue, isJsonObject } from './types.js';
+
+// Items inspected per array unless sampleSize says otherwise
+const DEFAULT_SAMPLE_SIZE = 1000;
+
+// Most properties described per object shape; objects used as maps keep the rest uncounted
+const MAX_PROPERTIES = 100;
+
+// Most example values kept per node, and the longest example string
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLE_LENGTH = 80;
+
+type ValueType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+// String formats recognized in values, most specific first. Date-times and times
+// need a time zone, as the JSON Schema formats of the same names do.
+const STRING_FORMATS: Array<[string, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['time', /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z0-9+.-]*:\/\/\S+$/i],
+  ['ipv4', /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/],
+];
+
+// Everything observed at one place in the document, merged over all values seen there
+interface Shape {
+  count: number;
+  types: Map<ValueType, number>;
+  examples: JsonValue[];
+  // Objects
+  objects: number;
+  properties: Map<string, Shape>;
+  moreProperties: Set<string>;
+  // Arrays
+  items?: Shape;
+  minItems: number;
+  maxItems: number;
+  sampled: boolean;
+  // Strings: the format every string had so far (null once they disagree)
+  format?: string | null;
+  // Numbers
+  minimum: number;
+  maximum: number;
+}
+
+export interface DescribeOptions {
+  output: DescribeOutput;
+  sampleSize: number;
+}
+
+// Validate the output and sampleSize arguments of describe
+export function parseDescribeOptions(args: { output?: unknown; sampleSize?: unknown }): DescribeOptions {
+  if (args.output !== undefined && !DESCRIBE_OUTPUTS.includes(args.output as DescribeOutput)) {
+    throw new Error(`output must be one of: ${DESCRIBE_OUTPUTS.join(', ')}`);
+  }
+  const sampleSize = args.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+  if (typeof sampleSize !== 'number' || !Number.isInteger(sampleSize) || sampleSize < 1) {
+    throw new Error('sampleSize must be a positive integer');
+  }
+  return { output: (args.output as DescribeOutput | undefined) ?? 'summary', sampleSize };
+}
+
+function createShape(): Shape {
+  return {
+    count: 0,
+    types: new Map(),
+    examples: [],
+    objects: 0,
+    properties: new Map(),
+    moreProperties: new Set(),
+    minItems: Infinity,
+    maxItems: -Infinity,
+    sampled: false,
+    minimum: Infinity,
+    maximum: -Infinity,
+  };
+}
+
+function typeOf(value: JsonValue): ValueType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as ValueType;
+}
+
+function detectFormat(text: string): string | null {
+  return STRING_FORMATS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function addExample(shape: Shape, value: JsonValue): void {
+  if (shape.examples.length >= MAX_EXAMPLES) return;
+  const example = typeof value === 'string' && value.length > MAX_EXAMPLE_LENGTH ? `${value.slice(0, MAX_EXAMPLE_LENGTH)}...` : value;
+  if (!shape.examples.includes(example)) {
+    shape.examples.push(example);
+  }
+}
+
+// Array items to inspect: all of them, or `sampleSize` spread evenly over the array
+function sampleItems(items: JsonValue[], sampleSize: number): JsonValue[] {
+  if (items.length <= sampleSize) {
+    return items;
+  }
+  return Array.from({ length: sampleSize }, (_, index) => items[Math.floor((index * items.length) / sampleSize)]);
+}
+
+// Merge a value into the shape observed at its place
+function observe(shape: Shape, value: JsonValue, sampleSize: number): void {
+  const type = typeOf(value);
+  shape.count++;
+  shape.types.set(type, (shape.types.get(type) ?? 0) + 1);
+
+  if (Array.isArray(value)) {
+    shape.minItems = Math.min(shape.minItems, value.length);
+    shape.maxItems = Math.max(shape.maxItems, value.length);
+    const items = sampleItems(value, sampleSize);
+    shape.sampled ||= items.length < value.length;
+    shape.items ??= createShape();
+    for (const item of items) {
+      observe(shape.items, item, sampleSize);
+    }
+  } else if (isJsonObject(value)) {
+    shape.objects++;
+    for (const [key, child] of Object.entries(value)) {
+      let property = shape.properties.get(key);
+      if (!property) {
+        if (shape.properties.size >= MAX_PROPERTIES) {
+          shape.moreProperties.add(key);
+          continue;
+        }
+        property = createShape();
+        shape.properties.set(key, property);
+      }
+      observe(property, child, sampleSize);
+    }
+  } else {
+    addExample(shape, value);
+    if (typeof value === 'string') {
+      const format = detectFormat(value);
+      shape.format = shape.format === undefined || shape.format === format ? format : null;
+    } else if (typeof value === 'number') {
+      shape.minimum = Math.min(shape.minimum, value);
+      shape.maximum = Math.max(shape.maximum, value);
+    }
+  }
+}
+
+// Observed types, with integer folded into number when both occur
+function typeNames(shape: Shape): ValueType[] {
+  const types = [...shape.types.keys()];
+  return types.includes('integer') && types.includes('number') ? types.filter((type) => type !== 'integer') : types;
+}
+
+function typeField(shape: Shape): ValueType | ValueType[] {
+  const types = typeNames(shape);
+  return types.length === 1 ? types[0] : types;
+}
+
+// Render a shape as a compact summary: types, counts, optional properties,
+// array lengths, number ranges, formats and examples
+function summarize(shape: Shape): Record<string, JsonValue> {
+  const summary: Record<string, JsonValue> = { type: typeField(shape), count: shape.count };
+  if (shape.types.size > 1) {
+    summary.typeCounts = Object.fromEntries(shape.types);
+  }
+  if (shape.format) summary.format = shape.format;
+  if (shape.minimum <= shape.maximum) {
+    summary.min = shape.minimum;
+    summary.max = shape.maximum;
+  }
+  if (shape.examples.length > 0) summary.examples = shape.examples;
+  if (shape.objects > 0) {
+    summary.properties = Object.fromEntries(
+      [...shape.properties].map(([key, property]) => {
+        const described = summarize(property);
+        return [key, property.count < shape.objects ? { ...described, optional: true } : described];
+      })
+    );
+    if (shape.moreProperties.size > 0) summary.moreProperties = shape.moreProperties.size;
+  }
+  if (shape.items) {
+    summary.length = { min: shape.minItems, max: shape.maxItems };
+    if (shape.sampled) summary.sampled = true;
+    if (shape.items.count > 0) summary.items = summarize(shape.items);
+  }
+  return summary;
+}
+
+// Render a shape as a JSON Schema; properties present in every object are required
+function toSchema(shape: Shape): Record<string, JsonValue> {
+  const schema: Record<string, JsonValue> = { type: typeField(shape) };
+  if (shape.format) schema.format = shape.format;
+  if (shape.objects > 0) {
+    schema.properties = Object.fromEntries([...shape.properties].map(([key, property]) => [key, toSchema(property)]));
+    const required = [...shape.properties].filter(([, property]) => property.count === shape.objects).map(([key]) => key);
+    if (required.length > 0) schema.required = required;
+  }
+  if (shape.items && shape.items.count > 0) {
+    schema.items = toSchema(shape.items);
+  }
+  if (shape.examples.length > 0) schema.examples = shape.examples;
+  return schema;
+}
+
+// Describe the structure of one or more values (merged as if they were items of one array)
+export function describeValues(values: JsonValue[], options: DescribeOptions): Record<string, JsonValue> {
+  if (values.length === 0) {
+    throw new Error('Nothing to describe: the path matched no nodes');
+  }
+  const shape = createShape();
+  for (const value of values) {
+    observe(shape, value, options.sampleSize);
+  }
+  if (options.output === 'schema') {
+    return { $schema: 'https://json-schema.org/draft/2020-12/schema', ...toSchema(shape) };
+  }
+  return summarize(shape);
+}
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import { spawn } from 'child_process';
-import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
@@ -49,7 +50,7 @@ describe('MCP Integration Tests', () => {
     const response = await client.listTools();
     
     expect(response.tools).toBeDefined();
-    expect(response.tools.length).toBe(5); // Now 5 tools (removed replace, kept set)
+    expect(response.tools.length).toBe(16);
     
     const toolNames = response.tools.map((tool) => tool.name);
     expect(toolNames).toContain('search');
@@ -57,6 +58,16 @@ describe('MCP Integration Tests', () => {
     expect(toolNames).toContain('appendToArray');
     expect(toolNames).toContain('delete');
     expect(toolNames).toContain('set');
+    expect(toolNames).toContain('patch');
+    expect(toolNames).toContain('jsonPatch');
+    expect(toolNames).toContain('mergePatch');
+    expect(toolNames).toContain('generatePatch');
+    expect(toolNames).toContain('aggregate');
+    expect(toolNames).toContain('validate');
+    expect(toolNames).toContain('describe');
+    expect(toolNames).toContain('undo');
+    expect(toolNames).toContain('redo');
+    expect(toolNames).toContain('history');
   });
 
   it('should search JSON data', async () => {
@@ -76,11 +87,61 @@ describe('MCP Integration Tests', () => {
       },
     });
 
-    const results = JSON.parse(((searchResponse as any).content[0] as any).text);
+    const { results } = JSON.parse(((searchResponse as any).content[0] as any).text);
     expect(Array.isArray(results)).toBe(true);
     expect(results.length).toBeGreaterThan(0);
   });
 
+  it('should search inside a JSONPath subtree', async () => {
+    const testFile = join(testDir, 'test-search-path.json');
+    writeFileSync(testFile, JSON.stringify({ services: [{ env: { TOKEN: 'secret' } }], docs: 'secret handling' }));
+
+    const searchResponse = await client.callTool({
+      name: 'search',
+      arguments: { file: testFile, searchText: 'secret', path: '$.services[*].env' },
+    });
+
+    const { results } = JSON.parse(((searchResponse as any).content[0] as any).text);
+    expect(results.map((match: any) => match.path)).toEqual(['$.services[0].env.TOKEN']);
+  });
+
+  it('should search property names and filter by type', async () => {
+    const testFile = join(testDir, 'test-search-keys.json');
+    writeFileSync(testFile, JSON.stringify({ timeout: 30, label: 'timeout 30s' }));
+
+    const searchResponse = await client.callTool({
+      name: 'search',
+      arguments: { file: testFile, searchText: 'timeout', scope: 'both', types: ['number'] },
+    });
+
+    const { results } = JSON.parse(((searchResponse as any).content[0] as any).text);
+    expect(results).toEqual([
+      expect.objectContaining({ path: '$.timeout', pointer: '/timeout', value: 30, matchedOn: 'key' }),
+    ]);
+  });
+
+  it('should return context around search matches', async () => {
+    const testFile = join(testDir, 'test-search-context.json');
+    writeFileSync(testFile, JSON.stringify({ orders: [{ id: 7, status: 'failed', items: [{ sku: 'A' }] }] }));
+
+    const searchResponse = await client.callTool({
+      name: 'search',
+      arguments: { file: testFile, searchText: 'failed', contextDepth: 1 },
+    });
+
+    const { results } = JSON.parse(((searchResponse as any).content[0] as any).text);
+    expect(results).toEqual([
+      {
+        path: '$.orders[0].status',
+        pointer: '/orders/0/status',
+        value: 'failed',
+        parentPath: '$.orders[0]',
+        siblingKeys: ['id', 'items'],
+        context: { id: 7, status: 'failed', items: '[Array: 1 item]' },
+      },
+    ]);
+  });
+
   it('should query JSON data by JSONPath', async () => {
     const testData = {
       store: {
@@ -102,8 +163,127 @@ describe('MCP Integration Tests', () => {
       },
     });
 
-  const results = JSON.parse(((queryResponse as any).content[0] as any).text);
-    expect(results).toEqual(['Book 1', 'Book 2']);
+    const { results } = JSON.parse(((queryResponse as any).content[0] as any).text);
+    expect(results).toEqual([
+      { path: '$.store.books[0].title', pointer: '/store/books/0/title', value: 'Book 1' },
+      { path: '$.store.books[1].title', pointer: '/store/books/1/title', value: 'Book 2' },
+    ]);
+  });
+
+  it('should page through query results', async () => {
+    const testFile = join(testDir, 'test-paging.json');
+    writeFileSync(testFile, JSON.stringify({ items: Array.from({ length: 5 }, (_, id) => ({ id })) }));
+
+    const firstResponse = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: '$.items[*].id', limit: 2 },
+    });
+    const first = JSON.parse(((firstResponse as any).content[0] as any).text);
+    expect(first).toMatchObject({ total: 5, offset: 0, count: 2, truncated: true });
+    expect(first.results.map((match: any) => match.value)).toEqual([0, 1]);
+
+    const nextResponse = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: '$.items[*].id', cursor: first.nextCursor },
+    });
+    const next = JSON.parse(((nextResponse as any).content[0] as any).text);
+    expect(next).toMatchObject({ total: 5, offset: 2, count: 3, truncated: false });
+    expect(next.nextCursor).toBeUndefined();
+  });
+
+  it('should project and shape query results', async () => {
+    const testFile = join(testDir, 'records.json');
+    writeFileSync(testFile, JSON.stringify({ records: [{ id: 1, name: 'a', blob: 'x'.repeat(1000) }, { id: 2, name: 'b', blob: '' }] }));
+
+    const projected = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: '$.records[*]', projection: { key: 'id', label: 'name' }, resultType: 'value' },
+    });
+    expect(JSON.parse(((projected as any).content[0] as any).text).results).toEqual([
+      { key: 1, label: 'a' },
+      { key: 2, label: 'b' },
+    ]);
+
+    const paths = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: '$.records[?(@.id > 1)]', resultType: 'path' },
+    });
+    expect(JSON.parse(((paths as any).content[0] as any).text).results).toEqual(['$.records[1]']);
+  });
+
+  it('should aggregate values by group', async () => {
+    const testFile = join(testDir, 'orders.json');
+    writeFileSync(
+      testFile,
+      JSON.stringify({ orders: [{ status: 'paid', total: 5 }, { status: 'open', total: 7 }, { status: 'paid', total: 3 }] })
+    );
+
+    const response = await client.callTool({
+      name: 'aggregate',
+      arguments: { file: testFile, path: '$.orders[*]', field: 'total', groupBy: 'status', operations: ['sum', 'max'] },
+    });
+    expect(JSON.parse(((response as any).content[0] as any).text)).toEqual({
+      count: 3,
+      sum: 15,
+      max: 7,
+      groups: [
+        { key: 'paid', count: 2, sum: 8, max: 5 },
+        { key: 'open', count: 1, sum: 7, max: 7 },
+      ],
+      totalGroups: 2,
+    });
+  });
+
+  it('should describe the structure of a file', async () => {
+    const testFile = join(testDir, 'catalog.json');
+    writeFileSync(testFile, JSON.stringify({ products: [{ sku: 'a', price: 3 }, { sku: 'b', price: 4, sale: true }] }));
+
+    const response = await client.callTool({
+      name: 'describe',
+      arguments: { file: testFile, path: '$.products[*]', output: 'schema' },
+    });
+    expect(JSON.parse(((response as any).content[0] as any).text)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        sku: { type: 'string', examples: ['a', 'b'] },
+        price: { type: 'integer', examples: [3, 4] },
+        sale: { type: 'boolean', examples: [true] },
+      },
+      required: ['sku', 'price'],
+    });
+  });
+
+  it('should address keys with special characters by JSON Pointer', async () => {
+    const testData = {
+      'settings.json': { "editor['tab']": 2 },
+    };
+
+    const testFile = join(testDir, 'test-pointer.json');
+    writeFileSync(testFile, JSON.stringify(testData, null, 2));
+
+    const setResponse = await client.callTool({
+      name: 'set',
+      arguments: {
+        file: testFile,
+        pointer: "/settings.json/editor['tab']",
+        value: 4,
+      },
+    });
+    expect(((setResponse as any).content[0] as any).text).toBe('File updated successfully');
+
+    const queryResponse = await client.callTool({
+      name: 'query',
+      arguments: {
+        file: testFile,
+        pointer: "/settings.json/editor['tab']",
+      },
+    });
+
+    const { results } = JSON.parse(((queryResponse as any).content[0] as any).text);
+    expect(results).toEqual([
+      { path: "$['settings.json']['editor[\\'tab\\']']", pointer: "/settings.json/editor['tab']", value: 4 },
+    ]);
   });
 
   it('should set data at JSONPath with all=true', async () => {
@@ -133,6 +313,278 @@ describe('MCP Integration Tests', () => {
     expect(updatedData.user.age).toBe(31);
   });
 
+  it('should create missing parents when createParents is set', async () => {
+    const testFile = join(testDir, 'test-create-parents.json');
+    writeFileSync(testFile, JSON.stringify({}, null, 2));
+
+    const setResponse = await client.callTool({
+      name: 'set',
+      arguments: {
+        file: testFile,
+        path: '$.settings.network.proxy.host',
+        value: 'localhost',
+        createParents: true,
+      },
+    });
+    expect(((setResponse as any).content[0] as any).text).toBe('File updated successfully');
+
+    const fs = await import('fs');
+    const updatedData = JSON.parse(fs.readFileSync(testFile, 'utf-8'));
+    expect(updatedData).toEqual({ settings: { network: { proxy: { host: 'localhost' } } } });
+  });
+
+  it('should keep the file layout when writing', async () => {
+    const testFile = join(testDir, 'test-layout.json');
+    writeFileSync(testFile, '{\r\n\t"name": "app",\r\n\t"version": 1\r\n}\r\n');
+
+    await client.callTool({
+      name: 'set',
+      arguments: { file: testFile, path: '$.version', value: 2 },
+    });
+
+    const fs = await import('fs');
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('{\r\n\t"name": "app",\r\n\t"version": 2\r\n}\r\n');
+
+    await client.callTool({
+      name: 'set',
+      arguments: { file: testFile, path: '$.version', value: 3, indent: 0 },
+    });
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('{"name":"app","version":3}\r\n');
+  });
+
+  it('should edit JSONC files in place, keeping comments', async () => {
+    const testFile = join(testDir, 'tsconfig.json');
+    const original = '{\n  // strictness\n  "compilerOptions": {\n    "strict": false, // TODO\n  },\n}\n';
+    writeFileSync(testFile, original);
+
+    const queryResponse = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: '$.compilerOptions.strict' },
+    });
+    expect(JSON.parse(((queryResponse as any).content[0] as any).text).results[0].value).toBe(false);
+
+    await client.callTool({
+      name: 'set',
+      arguments: { file: testFile, path: '$.compilerOptions.strict', value: true },
+    });
+
+    const fs = await import('fs');
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe(original.replace('false', 'true'));
+  });
+
+  it('should query and edit multi-document YAML streams', async () => {
+    const testFile = join(testDir, 'manifests.yaml');
+    writeFileSync(testFile, '# service\nkind: Service\n---\nkind: Deployment\nspec:\n  replicas: 1 # scaled by HPA\n');
+
+    const queryResponse = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: '$[*].kind' },
+    });
+    expect(JSON.parse(((queryResponse as any).content[0] as any).text).results.map((match: any) => match.value)).toEqual([
+      'Service',
+      'Deployment',
+    ]);
+
+    await client.callTool({
+      name: 'set',
+      arguments: { file: testFile, path: '$[1].spec.replicas', value: 2 },
+    });
+
+    const fs = await import('fs');
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe(
+      '# service\nkind: Service\n---\nkind: Deployment\nspec:\n  replicas: 2 # scaled by HPA\n'
+    );
+  });
+
+  it('should query JSON Lines files by record and report line numbers', async () => {
+    const testFile = join(testDir, 'events.jsonl');
+    writeFileSync(testFile, '{"level":"info", "msg":"up"}\n{"level":"error","msg":"down"}\n');
+
+    const queryResponse = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: "$[?(@.level=='error')].msg" },
+    });
+    expect(JSON.parse(((queryResponse as any).content[0] as any).text).results).toEqual([
+      { path: '$[1].msg', pointer: '/1/msg', value: 'down', line: 2 },
+    ]);
+
+    await client.callTool({
+      name: 'set',
+      arguments: { file: testFile, path: '$[1].msg', value: 'recovered' },
+    });
+
+    const fs = await import('fs');
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe('{"level":"info", "msg":"up"}\n{"level":"error","msg":"recovered"}\n');
+  });
+
+  it('should stream queries and searches when asked to', async () => {
+    const testFile = join(testDir, 'export.json');
+    writeFileSync(testFile, JSON.stringify({ rows: [{ id: 1, status: 'ok' }, { id: 2, status: 'failed' }] }));
+
+    const queryResponse = await client.callTool({
+      name: 'query',
+      arguments: { file: testFile, path: "$.rows[?(@.status == 'failed')].id", stream: true },
+    });
+    expect(JSON.parse(((queryResponse as any).content[0] as any).text).results).toEqual([
+      { path: '$.rows[1].id', pointer: '/rows/1/id', value: 2 },
+    ]);
+
+    const searchResponse = await client.callTool({
+      name: 'search',
+      arguments: { file: testFile, searchText: 'fail', stream: true },
+    });
+    expect(JSON.parse(((searchResponse as any).content[0] as any).text).results).toEqual([
+      { path: '$.rows[1].status', pointer: '/rows/1/status', value: 'failed' },
+    ]);
+  });
+
+  it('should serve repeated queries from the document cache', async () => {
+    const testFile = join(testDir, 'cached.json');
+    writeFileSync(testFile, JSON.stringify({ items: [1, 2, 3] }));
+
+    const before = JSON.parse(((await client.callTool({ name: 'cacheStats', arguments: {} })) as any).content[0].text);
+    for (const path of ['$.items[0]', '$.items[1]', '$.items[2]']) {
+      await client.callTool({ name: 'query', arguments: { file: testFile, path } });
+    }
+    await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.items[0]', value: 10 } });
+    const queryResponse = await client.callTool({ name: 'query', arguments: { file: testFile, path: '$.items[0]' } });
+    expect(JSON.parse(((queryResponse as any).content[0] as any).text).results[0].value).toBe(10);
+
+    const after = JSON.parse(((await client.callTool({ name: 'cacheStats', arguments: {} })) as any).content[0].text);
+    expect(after.misses - before.misses).toBe(1);
+    expect(after.hits - before.hits).toBe(4);
+    expect(after.files).toContainEqual(expect.objectContaining({ file: testFile, format: 'json' }));
+  });
+
+  it('should search and query many files, reporting unreadable ones', async () => {
+    const fs = await import('fs');
+    const projectDir = join(testDir, 'project');
+    fs.mkdirSync(join(projectDir, 'packages/api'), { recursive: true });
+    fs.mkdirSync(join(projectDir, 'packages/web'), { recursive: true });
+    writeFileSync(join(projectDir, 'packages/api/package.json'), JSON.stringify({ name: 'api', version: '1.0.0' }));
+    writeFileSync(join(projectDir, 'packages/web/package.json'), JSON.stringify({ name: 'web', version: '2.0.0' }));
+    writeFileSync(join(projectDir, 'broken.json'), '{ "name": ');
+
+    const queryResponse = await client.callTool({
+      name: 'query',
+      arguments: { glob: `${projectDir}/packages/*/package.json`, path: '$.version' },
+    });
+    const queryResult = JSON.parse(((queryResponse as any).content[0] as any).text);
+    expect(queryResult).toMatchObject({ total: 2, filesRead: 2, fileLimitReached: false, errors: [] });
+    expect(queryResult.files).toEqual([
+      { file: join(projectDir, 'packages/api/package.json'), results: [{ path: '$.version', pointer: '/version', value: '1.0.0' }] },
+      { file: join(projectDir, 'packages/web/package.json'), results: [{ path: '$.version', pointer: '/version', value: '2.0.0' }] },
+    ]);
+    expect(Object.keys(queryResult.etags)).toEqual([
+      join(projectDir, 'packages/api/package.json'),
+      join(projectDir, 'packages/web/package.json'),
+    ]);
+
+    const searchResponse = await client.callTool({
+      name: 'search',
+      arguments: { directory: projectDir, searchText: 'web', exclude: ['packages/api/**'] },
+    });
+    const searchResult = JSON.parse(((searchResponse as any).content[0] as any).text);
+    expect(searchResult.files).toEqual([
+      {
+        file: join(projectDir, 'packages/web/package.json'),
+        results: [{ path: '$.name', pointer: '/name', value: 'web', parentPath: '$', siblingKeys: ['version'] }],
+      },
+    ]);
+    expect(searchResult.errors).toEqual([{ file: join(projectDir, 'broken.json'), error: expect.stringContaining('Failed to') }]);
+  });
+
+  it('should validate files and reject edits that break the schema', async () => {
+    const fs = await import('fs');
+    const schemaFile = join(testDir, 'service.schema.json');
+    writeFileSync(schemaFile, JSON.stringify({ type: 'object', properties: { port: { type: 'integer' } } }));
+    const testFile = join(testDir, 'service.json');
+    writeFileSync(testFile, JSON.stringify({ $schema: './service.schema.json', port: 'eighty' }));
+
+    const validateResponse = await client.callTool({ name: 'validate', arguments: { file: testFile } });
+    expect(JSON.parse(((validateResponse as any).content[0] as any).text)).toEqual({
+      valid: false,
+      schema: '$schema: ./service.schema.json',
+      errors: [{ pointer: '/port', path: '$.port', keyword: 'type', message: 'must be integer' }],
+    });
+
+    await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.port', value: 80, schema: '$schema' } });
+    const rejected = await client.callTool({
+      name: 'set',
+      arguments: { file: testFile, path: '$.port', value: 'http', schema: schemaFile },
+    });
+    expect(rejected.isError).toBe(true);
+    expect(((rejected as any).content[0] as any).text).toContain('Edit rejected');
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8')).port).toBe(80);
+  });
+
+  it('should undo and redo edits and list them in the history', async () => {
+    const fs = await import('fs');
+    const testFile = join(testDir, 'undo.json');
+    writeFileSync(testFile, JSON.stringify({ a: 1 }));
+
+    await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.a', value: 2 } });
+    await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.b', value: true } });
+
+    const undone = await client.callTool({ name: 'undo', arguments: { file: testFile } });
+    expect(((undone as any).content[0] as any).text).toBe('Undid set at $.b: added $.b');
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual({ a: 2 });
+
+    const historyResponse = await client.callTool({ name: 'history', arguments: { file: testFile } });
+    const listing = JSON.parse(((historyResponse as any).content[0] as any).text);
+    expect(listing).toMatchObject({ canUndo: true, canRedo: true });
+    expect(listing.entries.map((entry: any) => [entry.tool, entry.path, entry.summary, entry.undone])).toEqual([
+      ['set', '$.b', 'added $.b', true],
+      ['set', '$.a', 'changed $.a', undefined],
+    ]);
+
+    await client.callTool({ name: 'redo', arguments: { file: testFile } });
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual({ a: 2, b: true });
+
+    writeFileSync(testFile, JSON.stringify({ a: 3, b: true }));
+    const refused = await client.callTool({ name: 'undo', arguments: { file: testFile } });
+    expect(refused.isError).toBe(true);
+    expect(((refused as any).content[0] as any).text).toContain('the file has changed since');
+  });
+
+  it('should refuse edits to a file changed since its etag was issued', async () => {
+    const fs = await import('fs');
+    const testFile = join(testDir, 'etag.json');
+    writeFileSync(testFile, JSON.stringify({ count: 1 }));
+
+    const queryResponse = await client.callTool({ name: 'query', arguments: { file: testFile, path: '$.count' } });
+    const { etag } = JSON.parse(((queryResponse as any).content[0] as any).text);
+    expect(etag).toMatch(/^[0-9a-f]{40}$/);
+
+    writeFileSync(testFile, JSON.stringify({ count: 5 }));
+    const conflict = await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.count', value: 2, ifMatch: etag } });
+    expect(conflict.isError).toBe(true);
+    expect(((conflict as any).content[0] as any).text).toContain('Conflict');
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual({ count: 5 });
+
+    const searchResponse = await client.callTool({ name: 'search', arguments: { file: testFile, searchText: '5' } });
+    const current = JSON.parse(((searchResponse as any).content[0] as any).text).etag;
+    await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.count', value: 6, ifMatch: current } });
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual({ count: 6 });
+  });
+
+  it('should notify resource subscribers when a tool writes the file', async () => {
+    const testFile = join(testDir, 'subscribed.json');
+    writeFileSync(testFile, JSON.stringify({ count: 1 }));
+    const uri = `json://${testFile}#/count`;
+
+    const updated = new Promise<string>((resolve) => {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => resolve(notification.params.uri));
+    });
+    await client.subscribeResource({ uri });
+    await client.callTool({ name: 'set', arguments: { file: testFile, path: '$.count', value: 2 } });
+    expect(await updated).toBe(uri);
+
+    const read = await client.readResource({ uri });
+    expect(read.contents[0]).toMatchObject({ uri, mimeType: 'application/json', text: '2' });
+    await client.unsubscribeResource({ uri });
+  });
+
   it('should delete data at JSONPath', async () => {
     const testData = {
       items: [1, 2, 3, 4],
@@ -184,6 +636,138 @@ describe('MCP Integration Tests', () => {
     expect(updatedData.items).toEqual([1, 2, 3, 1.5]);
   });
 
+  it('should return a diff without writing when dryRun is set', async () => {
+    const testData = {
+      user: { name: 'Alice', age: 30 },
+    };
+
+    const testFile = join(testDir, 'test-dry-run.json');
+    writeFileSync(testFile, JSON.stringify(testData, null, 2));
+
+    const setResponse = await client.callTool({
+      name: 'set',
+      arguments: {
+        file: testFile,
+        path: '$.user.age',
+        value: 31,
+        dryRun: true,
+      },
+    });
+
+    const result = JSON.parse(((setResponse as any).content[0] as any).text);
+    expect(result).toEqual({
+      dryRun: true,
+      changes: [{ type: 'changed', path: '$.user.age', pointer: '/user/age', before: 30, after: 31 }],
+    });
+
+    // The file must be left untouched
+    const fs = await import('fs');
+    const unchangedData = JSON.parse(fs.readFileSync(testFile, 'utf-8'));
+    expect(unchangedData).toEqual(testData);
+  });
+
+  it('should apply a patch as a single write', async () => {
+    const testData = {
+      version: 1,
+      items: [{ id: 'a' }, { id: 'b' }],
+    };
+
+    const testFile = join(testDir, 'test-patch.json');
+    writeFileSync(testFile, JSON.stringify(testData, null, 2));
+
+    const patchResponse = await client.callTool({
+      name: 'patch',
+      arguments: {
+        file: testFile,
+        operations: [
+          { op: 'delete', path: '$.items[0]' },
+          { op: 'append', path: '$.items', value: { id: 'c' } },
+          { op: 'set', path: '$.version', value: 2 },
+        ],
+      },
+    });
+
+    expect(((patchResponse as any).content[0] as any).text).toBe('File updated successfully');
+
+    const fs = await import('fs');
+    const updatedData = JSON.parse(fs.readFileSync(testFile, 'utf-8'));
+    expect(updatedData).toEqual({ version: 2, items: [{ id: 'b' }, { id: 'c' }] });
+  });
+
+  it('should leave the file untouched when a patch step fails', async () => {
+    const testData = { version: 1, items: [] };
+
+    const testFile = join(testDir, 'test-patch-fail.json');
+    writeFileSync(testFile, JSON.stringify(testData, null, 2));
+
+    const patchResponse = await client.callTool({
+      name: 'patch',
+      arguments: {
+        file: testFile,
+        operations: [
+          { op: 'set', path: '$.version', value: 2 },
+          { op: 'append', path: '$.version', value: 3 },
+        ],
+      },
+    });
+
+    expect(patchResponse.isError).toBe(true);
+    expect(((patchResponse as any).content[0] as any).text).toContain('Operation 1 (append) failed');
+
+    const fs = await import('fs');
+    const unchangedData = JSON.parse(fs.readFileSync(testFile, 'utf-8'));
+    expect(unchangedData).toEqual(testData);
+  });
+
+  it('should apply a JSON Patch and a merge patch', async () => {
+    const testFile = join(testDir, 'test-json-patch.json');
+    writeFileSync(testFile, JSON.stringify({ version: 1, settings: { timeout: 30, legacy: true } }, null, 2));
+
+    const patchResponse = await client.callTool({
+      name: 'jsonPatch',
+      arguments: {
+        file: testFile,
+        patch: [
+          { op: 'test', path: '/version', value: 1 },
+          { op: 'replace', path: '/version', value: 2 },
+        ],
+      },
+    });
+    expect(((patchResponse as any).content[0] as any).text).toBe('File updated successfully');
+
+    const mergeResponse = await client.callTool({
+      name: 'mergePatch',
+      arguments: {
+        file: testFile,
+        patch: { settings: { timeout: 60, legacy: null } },
+      },
+    });
+    expect(((mergeResponse as any).content[0] as any).text).toBe('File updated successfully');
+
+    const fs = await import('fs');
+    const updatedData = JSON.parse(fs.readFileSync(testFile, 'utf-8'));
+    expect(updatedData).toEqual({ version: 2, settings: { timeout: 60 } });
+  });
+
+  it('should generate a JSON Patch between a file and a value', async () => {
+    const testFile = join(testDir, 'test-generate-patch.json');
+    writeFileSync(testFile, JSON.stringify({ items: [1, 2], name: 'a' }, null, 2));
+
+    const response = await client.callTool({
+      name: 'generatePatch',
+      arguments: {
+        file: testFile,
+        value: { items: [1, 2, 3], name: 'b' },
+      },
+    });
+
+    const patch = JSON.parse(((response as any).content[0] as any).text);
+    expect(patch).toEqual([
+      { op: 'add', path: '/items/2', value: 3 },
+      { op: 'replace', path: '/name', value: 'b' },
+    ]);
+  });
+
   it('should handle errors gracefully', async () => {
     // Test with missing required parameter
     try {
@@ -227,6 +811,16 @@ describe('MCP Integration Tests', () => {
   expect(((resp as any).content[0] as any).text).toContain('Missing required parameter: file');
     });
 
+    it('query should error when given both file and glob', async () => {
+      const resp = await client.callTool({
+        name: 'query',
+        arguments: { file: 'a.json', glob: '*.json', path: '$.a' },
+      });
+
+      expect(resp.isError).toBe(true);
+      expect(((resp as any).content[0] as any).text).toContain('Specify only one of file, glob or directory');
+    });
+
     it('set should error when missing value', async () => {
       const testFile = join(testDir, 'test-invalid-set.json');
       writeFileSync(testFile, JSON.stringify({ user: { age: 1 } }, null, 2));
@@ -267,3 +861,101 @@ describe('MCP Integration Tests', () => {
     });
   });
 });
+
+describe('MCP Integration Tests with allowed roots in read-only mode', () => {
+  let client: Client;
+  let testDir: string;
+  let root: string;
+
+  beforeAll(async () => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-roots-'));
+    root = join(testDir, 'workspace');
+    mkdirSync(root);
+    writeFileSync(join(root, 'config.json'), JSON.stringify({ name: 'inside' }));
+    writeFileSync(join(testDir, 'secret.json'), JSON.stringify({ token: 'outside' }));
+
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    await client.connect(new StdioClientTransport({ command: 'tsx', args: ['src/index.ts', '--read-only', root] }));
+  });
+
+  afterAll(async () => {
+    await client.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should not list or run tools that write files', async () => {
+    const toolNames = (await client.listTools()).tools.map((tool) => tool.name);
+    expect(toolNames).toContain('query');
+    expect(toolNames).not.toContain('set');
+    expect(toolNames).not.toContain('jsonPatch');
+    expect(toolNames).not.toContain('undo');
+    expect(toolNames).toContain('history');
+
+    const resp = await client.callTool({
+      name: 'set',
+      arguments: { file: join(root, 'config.json'), path: '$.name', value: 'changed' },
+    });
+    expect(resp.isError).toBe(true);
+    expect(((resp as any).content[0] as any).text).toContain('read-only mode');
+  });
+
+  it('should list the files below the roots as resources', async () => {
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([{ uri: `json://${join(root, 'config.json')}`, name: 'config.json', mimeType: 'application/json' }]);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates[0].uriTemplate).toBe('json://{file}#{jsonpath}');
+
+    const read = await client.readResource({ uri: `json://${encodeURIComponent(join(root, 'config.json'))}#$.name` });
+    expect(JSON.parse((read.contents[0] as any).text)).toEqual(['inside']);
+    await expect(client.readResource({ uri: `json://${join(testDir, 'secret.json')}` })).rejects.toThrow(/outside the allowed roots/);
+  });
+
+  it('should only read files inside the allowed roots', async () => {
+    const inside = await client.callTool({ name: 'query', arguments: { file: join(root, 'config.json'), path: '$.name' } });
+    expect(JSON.parse(((inside as any).content[0] as any).text).results[0].value).toBe('inside');
+
+    for (const file of [join(testDir, 'secret.json'), join(root, '..', 'secret.json')]) {
+      const outside = await client.callTool({ name: 'query', arguments: { file, path: '$.token' } });
+      expect(outside.isError).toBe(true);
+      expect(((outside as any).content[0] as any).text).toContain('outside the allowed roots');
+    }
+  });
+});
+
+describe('MCP Integration Tests with an unwritable history directory', () => {
+  let client: Client;
+  let testDir: string;
+
+  beforeAll(async () => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-history-'));
+    // A directory below a regular file cannot be created
+    writeFileSync(join(testDir, 'blocker'), '');
+    client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+    await client.connect(
+      new StdioClientTransport({ command: 'tsx', args: ['src/index.ts', '--history-dir', join(testDir, 'blocker', 'history')] })
+    );
+  });
+
+  afterAll(async () => {
+    await client.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report a written edit as successful, with a warning, when its history cannot be saved', async () => {
+    const fs = await import('fs');
+    const testFile = join(testDir, 'list.json');
+    writeFileSync(testFile, JSON.stringify({ items: [1] }));
+
+    const response = await client.callTool({ name: 'appendToArray', arguments: { file: testFile, path: '$.items', value: 2 } });
+    expect(response.isError).toBeFalsy();
+    const text = ((response as any).content[0] as any).text;
+    expect(text).toMatch(/^File updated successfully\. Warning: Failed to write edit history/);
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual({ items: [1, 2] });
+
+    // The edit is still remembered for this session
+    const undone = await client.callTool({ name: 'undo', arguments: { file: testFile } });
+    expect(((undone as any).content[0] as any).text).toContain('Undid appendToArray at $.items');
+    expect(JSON.parse(fs.readFileSync(testFile, 'utf-8'))).toEqual({ items: [1] });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { editJSONC, parseJSONC } from './jsonc.js';
+import { detectFormatting } from './tools.js';
+import { JsonValue } from './types.js';
+
+const settings = `{
+  "a": 1, // about a
+  "b": 2, // about b
+  "list": [1, 2, 3],
+  "multi": [
+    "x", // first
+    "y"
+  ]
+}
+`;
+
+function edit(text: string, after: JsonValue): string {
+  return editJSONC(text, parseJSONC(text), after, detectFormatting(text));
+}
+
+describe('editJSONC', () => {
+  it('should remove a member without touching the comments of its neighbours', () => {
+    expect(edit(settings, { a: 1, list: [1, 2, 3], multi: ['x', 'y'] })).toBe(`{
+  "a": 1, // about a
+  "list": [1, 2, 3],
+  "multi": [
+    "x", // first
+    "y"
+  ]
+}
+`);
+  });
+
+  it('should drop the preceding comma when removing the last element', () => {
+    expect(edit(settings, { a: 1, b: 2, list: [1, 2], multi: ['x'] })).toBe(`{
+  "a": 1, // about a
+  "b": 2, // about b
+  "list": [1, 2],
+  "multi": [
+    "x" // first
+  ]
+}
+`);
+  });
+
+  it('should keep inline arrays inline and multi-line arrays multi-line when inserting', () => {
+    expect(edit(settings, { a: 1, b: 2, list: [0, 1, 2, 3, 4], multi: ['x', 'y', 'z'] })).toBe(`{
+  "a": 1, // about a
+  "b": 2, // about b
+  "list": [0, 1, 2, 3, 4],
+  "multi": [
+    "x", // first
+    "y",
+    "z"
+  ]
+}
+`);
+    expect(edit('{"items":[]}', { items: [1] })).toBe('{"items":[1]}');
+  });
+
+  it('should replace values in place', () => {
+    expect(edit(settings, { a: 10, b: 2, list: [1, 2, 3], multi: ['x', 'y'] })).toBe(settings.replace('"a": 1', '"a": 10'));
+  });
+
+  it('should keep single-line objects on one line when setting members', () => {
+    expect(edit('{"a": 1}', { a: 1, b: { c: 1 } })).toBe('{"a": 1, "b": {"c":1}}');
+    expect(edit('{"a": 1, "x": [1]} // keep', { a: 1, x: { y: [2] } })).toBe('{"a": 1, "x": {"y":[2]}} // keep');
+    expect(edit('{"a":1,}', { a: 1, b: 2 })).toBe('{"a":1, "b":2,}');
+    expect(edit('{}', { b: 2 })).toBe('{"b": 2}');
+    expect(edit(settings, { a: 1, b: 2, list: [1, 20, 3], multi: ['x', 'y'] })).toBe(settings.replace('[1, 2, 3]', '[1, 20, 3]'));
+  });
+
+  it('should report parse errors with their position', () => {
+    expect(() => parseJSONC('{\n  "a": 1,\n  "b"\n}')).toThrow(/ColonExpected at line 4 column 1/);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  Node,
+  ParseError,
+  SyntaxKind,
+  applyEdits,
+  createScanner,
+  findNodeAtLocation,
+  modify,
+  parse,
+  parseTree,
+  printParseErrorCode,
+} from 'jsonc-parser';
+import { diffSegments } from './diff.js';
+import { JSONFormatting, JsonValue, JsonValueSchema, PathSegment } from './types.js';
+
+interface Token {
+  kind: SyntaxKind;
+  offset: number;
+  end: number;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  content: string;
+}
+
+function lineAndColumn(text: string, offset: number): string {
+  const lines = text.slice(0, offset).split('\n');
+  return `line ${lines.length} column ${lines[lines.length - 1].length + 1}`;
+}
+
+// Parse JSON with comments and trailing commas
+export function parseJSONC(text: string): JsonValue {
+  const errors: ParseError[] = [];
+  const parsed: unknown = parse(text, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    throw new Error(`${printParseErrorCode(errors[0].error)} at ${lineAndColumn(text, errors[0].offset)}`);
+  }
+  return JsonValueSchema.parse(parsed);
+}
+
+function scanTokens(text: string): Token[] {
+  const scanner = createScanner(text, false);
+  const tokens: Token[] = [];
+  for (let kind = scanner.scan(); kind !== SyntaxKind.EOF; kind = scanner.scan()) {
+    const offset = scanner.getTokenOffset();
+    tokens.push({ kind, offset, end: offset + scanner.getTokenLength() });
+  }
+  return tokens;
+}
+
+function isTrivia(kind: SyntaxKind): boolean {
+  return (
+    kind === SyntaxKind.Trivia ||
+    kind === SyntaxKind.LineBreakTrivia ||
+    kind === SyntaxKind.LineCommentTrivia ||
+    kind === SyntaxKind.BlockCommentTrivia
+  );
+}
+
+function applyTextEdits(text: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((current, edit) => current.slice(0, edit.start) + edit.content + current.slice(edit.end), text);
+}
+
+function toFormattingOptions(formatting: JSONFormatting) {
+  return {
+    insertSpaces: formatting.indent !== '\t',
+    tabSize: typeof formatting.indent === 'number' ? formatting.indent : formatting.indent.length,
+    eol: formatting.eol,
+  };
+}
+
+function findNode(text: string, segments: PathSegment[]): Node {
+  const root = parseTree(text, [], { allowTrailingComma: true });
+  const node = root && findNodeAtLocation(root, segments);
+  if (!node) {
+    throw new Error(`Node not found in JSONC text: ${JSON.stringify(segments)}`);
+  }
+  return node;
+}
+
+// Remove an object member or array element together with one adjoining comma.
+// When it sits on a line of its own, the whole line goes (with any comment that
+// trails it), and comments belonging to neighbouring nodes are left alone.
+function removeNode(text: string, segments: PathSegment[]): string {
+  const valueNode = findNode(text, segments);
+  const node = valueNode.parent?.type === 'property' ? valueNode.parent : valueNode;
+  const tokens = scanTokens(text);
+  const first = tokens.findIndex((token) => token.offset === node.offset);
+  let last = tokens.findIndex((token) => token.end === node.offset + node.length);
+  let previousComma: Token | undefined;
+
+  let next = last + 1;
+  while (next < tokens.length && isTrivia(tokens[next].kind)) next++;
+  if (next < tokens.length && tokens[next].kind === SyntaxKind.CommaToken) {
+    last = next;
+  } else {
+    let previous = first - 1;
+    while (previous >= 0 && isTrivia(tokens[previous].kind)) previous--;
+    if (previous >= 0 && tokens[previous].kind === SyntaxKind.CommaToken) {
+      previousComma = tokens[previous];
+    }
+  }
+
+  let before = first - 1;
+  while (before >= 0 && tokens[before].kind === SyntaxKind.Trivia) before--;
+  let after = last + 1;
+  while (after < tokens.length && tokens[after].kind === SyntaxKind.Trivia) after++;
+  const startsLine = before < 0 || tokens[before].kind === SyntaxKind.LineBreakTrivia;
+  let lineEnd = after;
+  if (lineEnd < tokens.length && tokens[lineEnd].kind === SyntaxKind.LineCommentTrivia) {
+    lineEnd++;
+  }
+  const endsLine = lineEnd >= tokens.length || tokens[lineEnd].kind === SyntaxKind.LineBreakTrivia;
+
+  if (startsLine && endsLine) {
+    const edits: TextEdit[] = [
+      {
+        start: before < 0 ? 0 : tokens[before].end,
+        end: lineEnd < tokens.length ? tokens[lineEnd].end : text.length,
+        content: '',
+      },
+    ];
+    if (previousComma) {
+      edits.push({ start: previousComma.offset, end: previousComma.end, content: '' });
+    }
+    return applyTextEdits(text, edits);
+  }
+
+  const start = previousComma ? previousComma.offset : tokens[first].offset;
+  const end = previousComma ? tokens[last].end : after < tokens.length ? tokens[after].offset : text.length;
+  return applyTextEdits(text, [{ start, end, content: '' }]);
+}
+
+// Insert an array element next to its siblings, following the array's own
+// layout: inline arrays stay inline, multi-line arrays get a new line.
+function insertArrayElement(text: string, segments: PathSegment[], value: JsonValue, formatting: JSONFormatting): string {
+  const index = segments[segments.length - 1] as number;
+  const array = findNode(text, segments.slice(0, -1));
+  const elements = array.children ?? [];
+  const multiline = text.slice(array.offset, array.offset + array.length).includes('\n');
+  if (elements.length === 0) {
+    if (!multiline) {
+      return applyTextEdits(text, [{ start: array.offset, end: array.offset + array.length, content: `[${JSON.stringify(value)}]` }]);
+    }
+    return applyEdits(text, modify(text, segments, value, { isArrayInsertion: true, formattingOptions: toFormattingOptions(formatting) }));
+  }
+
+  const reference = elements[Math.min(index, elements.length - 1)];
+  let separator = ', ';
+  let content = JSON.stringify(value);
+  if (multiline) {
+    const lineStart = text.lastIndexOf('\n', reference.offset) + 1;
+    const indentation = text.slice(lineStart, reference.offset).match(/^[ \t]*/)?.[0] ?? '';
+    separator = `,${formatting.eol}${indentation}`;
+    content = JSON.stringify(value, null, formatting.indent).replace(/\n/g, `${formatting.eol}${indentation}`);
+  }
+
+  if (index < elements.length) {
+    return applyTextEdits(text, [{ start: reference.offset, end: reference.offset, content: content + separator }]);
+  }
+  const end = reference.offset + reference.length;
+  return applyTextEdits(text, [{ start: end, end, content: separator + content }]);
+}
+
+// Set a value inside a container written on one line, keeping it on one line:
+// the value is replaced, or the member appended, as compact JSON. Returns
+// undefined for multi-line containers, which modify lays out by indentation.
+function setInline(text: string, segments: PathSegment[], value: JsonValue): string | undefined {
+  const root = parseTree(text, [], { allowTrailingComma: true });
+  const container = root && findNodeAtLocation(root, segments.slice(0, -1));
+  if (!container || text.slice(container.offset, container.offset + container.length).includes('\n')) {
+    return undefined;
+  }
+  const content = JSON.stringify(value);
+  const existing = segments.length === 0 ? container : findNodeAtLocation(container, segments.slice(-1));
+  if (existing) {
+    return applyTextEdits(text, [{ start: existing.offset, end: existing.offset + existing.length, content }]);
+  }
+  if (container.type !== 'object') {
+    return undefined;
+  }
+  const key = JSON.stringify(segments[segments.length - 1]);
+  const last = container.children?.[container.children.length - 1];
+  if (!last?.children || last.children.length < 2) {
+    return applyTextEdits(text, [{ start: container.offset, end: container.offset + container.length, content: `{${key}: ${content}}` }]);
+  }
+  // Reuse the spacing around the colon of the member before
+  const [lastKey, lastValue] = last.children;
+  const colon = text.slice(lastKey.offset + lastKey.length, lastValue.offset);
+  const end = last.offset + last.length;
+  return applyTextEdits(text, [{ start: end, end, content: `, ${key}${colon}${content}` }]);
+}
+
+// Rewrite JSONC text as a series of minimal edits, one per structural change,
+// so comments, whitespace and key order outside the changed nodes stay as they were.
+export function editJSONC(text: string, before: JsonValue, after: JsonValue, formatting: JSONFormatting): string {
+  return diffSegments(before, after).reduce((current, change) => {
+    const isArrayElement = typeof change.segments[change.segments.length - 1] === 'number';
+    if (change.type === 'removed') {
+      return removeNode(current, change.segments);
+    }
+    if (change.type === 'added' && isArrayElement) {
+      return insertArrayElement(current, change.segments, change.after as JsonValue, formatting);
+    }
+    return (
+      setInline(current, change.segments, change.after as JsonValue) ??
+      applyEdits(current, modify(current, change.segments, change.after, { formattingOptions: toFormattingOptions(formatting) }))
+    );
+  }, text);
+}
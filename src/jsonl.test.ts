@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { addLineNumbers, editJSONL, parseJSONL } from './jsonl.js';
+import { detectFormatting, queryMatches, searchInJSON } from './tools.js';
+import { JsonValue } from './types.js';
+
+const log = `{"level":"info", "msg":"started"}
+
+{"level":"error","msg":"disk full"}
+{"level":"info","msg":"stopped"}
+`;
+
+function edit(text: string, after: JsonValue): string {
+  return editJSONL(text, parseJSONL(text), after, detectFormatting(text));
+}
+
+describe('parseJSONL', () => {
+  it('should read one record per line, skipping blank lines', () => {
+    expect(parseJSONL(log)).toEqual([
+      { level: 'info', msg: 'started' },
+      { level: 'error', msg: 'disk full' },
+      { level: 'info', msg: 'stopped' },
+    ]);
+    expect(parseJSONL('')).toEqual([]);
+  });
+
+  it('should report the line of an invalid record', () => {
+    expect(() => parseJSONL('{"a":1}\r\n{oops}\r\n')).toThrow(/Invalid JSON on line 2/);
+  });
+
+  it('should map matches back to line numbers', () => {
+    const data = parseJSONL(log);
+    expect(addLineNumbers(log, queryMatches(data, "$[?(@.level=='error')]"))).toEqual([
+      { path: '$[1]', pointer: '/1', value: { level: 'error', msg: 'disk full' }, line: 3 },
+    ]);
+    expect(addLineNumbers(log, searchInJSON(data, 'stopped')).map((match) => match.line)).toEqual([4]);
+  });
+});
+
+describe('editJSONL', () => {
+  it('should rewrite only the records that changed', () => {
+    const [started, error, stopped] = parseJSONL(log) as JsonValue[];
+    expect(edit(log, [started, { level: 'error', msg: 'disk full', retried: true }, stopped])).toBe(
+      '{"level":"info", "msg":"started"}\n\n{"level":"error","msg":"disk full","retried":true}\n{"level":"info","msg":"stopped"}\n'
+    );
+    expect(edit(log, [error, stopped, { level: 'debug' }])).toBe(
+      '\n{"level":"error","msg":"disk full"}\n{"level":"info","msg":"stopped"}\n{"level":"debug"}\n'
+    );
+  });
+
+  it('should start new files with newline-terminated records', () => {
+    expect(editJSONL('', [], [{ a: 1 }, { b: 2 }], detectFormatting(''))).toBe('{"a":1}\n{"b":2}\n');
+    expect(() => edit(log, { level: 'info' })).toThrow(/must remain an array of records/);
+  });
+});
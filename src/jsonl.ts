@@ -0,0 +1,99 @@
+import { parseJSONPointer } from './paths.js';
+import { JSONFormatting, JSONMatch, JsonValue, JsonValueSchema } from './types.js';
+
+// A line of a JSON Lines file: a record, or a blank line kept as it was
+interface Line {
+  text: string;
+  isRecord: boolean;
+}
+
+function splitLines(text: string): Line[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines.map((line) => ({ text: line, isRecord: line.trim() !== '' }));
+}
+
+// 1-based line number of each record, in record order
+export function recordLineNumbers(text: string): number[] {
+  return splitLines(text).flatMap((line, index) => (line.isRecord ? [index + 1] : []));
+}
+
+// Parse JSON Lines (NDJSON): one JSON value per line, blank lines ignored.
+// The file is read as an array of its records.
+export function parseJSONL(text: string): JsonValue {
+  return splitLines(text).flatMap((line, index) => {
+    if (!line.isRecord) {
+      return [];
+    }
+    try {
+      return [JsonValueSchema.parse(JSON.parse(line.text))];
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+// Add the line number of the record each match belongs to
+export function addLineNumbers(text: string, matches: JSONMatch[]): JSONMatch[] {
+  const lineNumbers = recordLineNumbers(text);
+  return matches.map((match) => {
+    const [record] = parseJSONPointer(match.pointer);
+    const line = record === undefined ? undefined : lineNumbers[Number(record)];
+    return line === undefined ? match : { ...match, line };
+  });
+}
+
+function lastIndices(keys: string[]): Map<string, number> {
+  return new Map(keys.map((key, index) => [key, index]));
+}
+
+// Apply the difference between two arrays of records to JSON Lines text,
+// rewriting only the lines of records that were added or changed. Records are
+// aligned greedily by content, so removing or inserting records keeps the
+// lines of the others.
+export function editJSONL(text: string, before: JsonValue, after: JsonValue, formatting: JSONFormatting): string {
+  if (!Array.isArray(after)) {
+    throw new Error('A JSON Lines file must remain an array of records');
+  }
+
+  const beforeKeys = (Array.isArray(before) ? before : []).map((record) => JSON.stringify(record));
+  const afterKeys = after.map((record) => JSON.stringify(record));
+  const lastInBefore = lastIndices(beforeKeys);
+  const lastInAfter = lastIndices(afterKeys);
+
+  const output: string[] = [];
+  let insertAt = 0;
+  let i = 0;
+  let j = 0;
+  for (const line of splitLines(text)) {
+    if (!line.isRecord) {
+      output.push(line.text);
+      continue;
+    }
+    while (j < after.length) {
+      if (afterKeys[j] === beforeKeys[i]) {
+        output.push(line.text);
+        j++;
+        break;
+      }
+      if ((lastInAfter.get(beforeKeys[i]) ?? -1) > j) {
+        output.push(afterKeys[j++]);
+        continue;
+      }
+      if ((lastInBefore.get(afterKeys[j]) ?? -1) <= i) {
+        output.push(afterKeys[j++]);
+      }
+      break;
+    }
+    i++;
+    insertAt = output.length;
+  }
+  // Remaining records go after the last record, before any trailing blank lines
+  output.splice(insertAt, 0, ...afterKeys.slice(j));
+
+  const content = output.join(formatting.eol);
+  // Records are newline-terminated by convention, so new files get a final newline
+  return content !== '' && (formatting.finalNewline || text === '') ? content + formatting.eol : content;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { applyJSONPatch, applyMergePatch, createJSONPatch, parseJSONPatch } from './jsonpatch.js';
+import { JsonValue } from './types.js';
+
+const doc: JsonValue = {
+  version: 1,
+  'a/b': { '~key': true },
+  tags: ['x', 'y'],
+};
+
+describe('applyJSONPatch', () => {
+  it('should apply add, remove, replace, move and copy', () => {
+    const result = applyJSONPatch(
+      doc,
+      parseJSONPatch([
+        { op: 'add', path: '/tags/1', value: 'inserted' },
+        { op: 'add', path: '/tags/-', value: 'last' },
+        { op: 'replace', path: '/version', value: 2 },
+        { op: 'remove', path: '/a~1b/~0key' },
+        { op: 'copy', from: '/tags/0', path: '/first' },
+        { op: 'move', from: '/version', path: '/meta' },
+      ])
+    );
+
+    expect(result).toEqual({
+      'a/b': {},
+      tags: ['x', 'inserted', 'y', 'last'],
+      first: 'x',
+      meta: 2,
+    });
+  });
+
+  it('should replace the whole document with an empty path', () => {
+    expect(applyJSONPatch(doc, [{ op: 'replace', path: '', value: [1] }])).toEqual([1]);
+  });
+
+  it('should pass matching test operations and fail mismatching ones', () => {
+    expect(applyJSONPatch(doc, [{ op: 'test', path: '/tags', value: ['x', 'y'] }])).toEqual(doc);
+    expect(() =>
+      applyJSONPatch(doc, [
+        { op: 'replace', path: '/version', value: 2 },
+        { op: 'test', path: '/version', value: 1 },
+      ])
+    ).toThrow(/^Operation 1 \(test\) failed: Test failed/);
+  });
+
+  it('should reject missing targets and non-canonical indices', () => {
+    expect(() => applyJSONPatch(doc, [{ op: 'remove', path: '/missing' }])).toThrow(/Path not found/);
+    expect(() => applyJSONPatch(doc, [{ op: 'replace', path: '/tags/01', value: 'z' }])).toThrow(/Invalid array index/);
+    expect(() => applyJSONPatch(doc, [{ op: 'add', path: '/tags/5', value: 'z' }])).toThrow(/out of bounds/);
+  });
+
+  it('should not modify the input document', () => {
+    const original = JSON.parse(JSON.stringify(doc));
+    applyJSONPatch(doc, [{ op: 'remove', path: '/tags/0' }]);
+    expect(doc).toEqual(original);
+  });
+
+  it('should reject operations missing required members', () => {
+    expect(() => parseJSONPatch([{ op: 'add', path: '/x' }])).toThrow(/^Operation 0 is invalid/);
+  });
+});
+
+describe('applyMergePatch', () => {
+  it('should merge objects recursively and remove null members', () => {
+    const target = { title: 'Goodbye!', author: { givenName: 'John', familyName: 'Doe' }, tags: ['example', 'sample'] };
+    const patch = { title: 'Hello!', phoneNumber: '+01-123-456-7890', author: { familyName: null }, tags: ['example'] };
+
+    expect(applyMergePatch(target, patch)).toEqual({
+      title: 'Hello!',
+      author: { givenName: 'John' },
+      tags: ['example'],
+      phoneNumber: '+01-123-456-7890',
+    });
+  });
+
+  it('should replace the target when the patch is not an object', () => {
+    expect(applyMergePatch({ a: 1 }, ['b'])).toEqual(['b']);
+    expect(applyMergePatch(['a'], { b: 'c' })).toEqual({ b: 'c' });
+  });
+});
+
+describe('createJSONPatch', () => {
+  it('should generate a patch that reproduces the target document', () => {
+    const target: JsonValue = {
+      version: 2,
+      'a/b': { '~key': false, added: [1, 2] },
+      tags: ['y', 'z', 'w'],
+    };
+
+    const patch = createJSONPatch(doc, target);
+    expect(applyJSONPatch(doc, patch)).toEqual(target);
+  });
+
+  it('should generate an empty patch for equal documents', () => {
+    expect(createJSONPatch(doc, JSON.parse(JSON.stringify(doc)))).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { diffJSON, isDeepEqual } from './diff.js';
+import { parseOperationList } from './patch.js';
+import { addAtPointer, getAtPointer, removeAtPointer, replaceAtPointer } from './pointer.js';
+import { JSONPatchOperation, JSONPatchOperationSchema, JsonValue, JsonValueSchema, isJsonObject } from './types.js';
+
+function applyPatchOperation(data: JsonValue, operation: JSONPatchOperation): JsonValue {
+  switch (operation.op) {
+    case 'add':
+      return addAtPointer(data, operation.path, operation.value);
+    case 'remove':
+      return removeAtPointer(data, operation.path);
+    case 'replace':
+      return replaceAtPointer(data, operation.path, operation.value);
+    case 'move': {
+      if (operation.path === operation.from) {
+        getAtPointer(data, operation.from);
+        return data;
+      }
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('Cannot move a value into one of its own children');
+      }
+      const value = getAtPointer(data, operation.from);
+      return addAtPointer(removeAtPointer(data, operation.from), operation.path, value);
+    }
+    case 'copy': {
+      const value = JsonValueSchema.parse(JSON.parse(JSON.stringify(getAtPointer(data, operation.from))));
+      return addAtPointer(data, operation.path, value);
+    }
+    case 'test':
+      if (!isDeepEqual(getAtPointer(data, operation.path), operation.value)) {
+        throw new Error(`Test failed: value at "${operation.path}" does not match`);
+      }
+      return data;
+  }
+}
+
+// Validate a raw RFC 6902 JSON Patch document
+export function parseJSONPatch(input: unknown): JSONPatchOperation[] {
+  return parseOperationList(input, JSONPatchOperationSchema);
+}
+
+// Apply an RFC 6902 JSON Patch. The input is not modified; when an operation
+// (including a failed `test`) throws, the error names its index.
+export function applyJSONPatch(data: JsonValue, patch: JSONPatchOperation[]): JsonValue {
+  let clonedData = JsonValueSchema.parse(JSON.parse(JSON.stringify(data)));
+
+  patch.forEach((operation, index) => {
+    try {
+      clonedData = applyPatchOperation(clonedData, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${index} (${operation.op}) failed: ${message}`);
+    }
+  });
+
+  return clonedData;
+}
+
+function mergeInto(target: JsonValue, patch: JsonValue): JsonValue {
+  if (!isJsonObject(patch)) {
+    return patch;
+  }
+
+  const result = isJsonObject(target) ? target : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = mergeInto(Object.prototype.hasOwnProperty.call(result, key) ? result[key] : null, value);
+    }
+  }
+  return result;
+}
+
+// Apply an RFC 7396 JSON Merge Patch: objects merge recursively, null removes
+// a member, and any other value replaces the target outright.
+export function applyMergePatch(data: JsonValue, patch: JsonValue): JsonValue {
+  const clonedData = JsonValueSchema.parse(JSON.parse(JSON.stringify(data)));
+  const clonedPatch = JsonValueSchema.parse(JSON.parse(JSON.stringify(patch)));
+  return mergeInto(clonedData, clonedPatch);
+}
+
+// Generate an RFC 6902 JSON Patch that turns `before` into `after`
+export function createJSONPatch(before: JsonValue, after: JsonValue): JSONPatchOperation[] {
+  return diffJSON(before, after).map((entry): JSONPatchOperation => {
+    switch (entry.type) {
+      case 'added':
+        return { op: 'add', path: entry.pointer, value: entry.after as JsonValue };
+      case 'removed':
+        return { op: 'remove', path: entry.pointer };
+      case 'changed':
+        return { op: 'replace', path: entry.pointer, value: entry.after as JsonValue };
+    }
+  });
+}
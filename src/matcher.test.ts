@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createTextMatcher, matchesType, parseSearchOptions } from './matcher.js';
+
+describe('createTextMatcher', () => {
+  it('should match whole words only at word boundaries', () => {
+    const matches = createTextMatcher('id', 'word');
+    expect(matches('user id: 7')).toBe(true);
+    expect(matches('the ID')).toBe(true);
+    expect(matches('identity')).toBe(false);
+    expect(matches('user_id')).toBe(false);
+    expect(createTextMatcher('a.b', 'word')('x a.b y')).toBe(true);
+  });
+
+  it('should tolerate one edit per four characters in fuzzy mode', () => {
+    const matches = createTextMatcher('timeout', 'fuzzy');
+    expect(matches('connection timout')).toBe(true);
+    expect(matches('timeuot')).toBe(false);
+    expect(createTextMatcher('abc', 'fuzzy')('abd')).toBe(false);
+  });
+
+  it('should honor caseSensitive', () => {
+    expect(createTextMatcher('Api')('the API')).toBe(true);
+    expect(createTextMatcher('Api', 'substring', true)('the API')).toBe(false);
+    expect(createTextMatcher('^api$', 'regex', true)('API')).toBe(false);
+  });
+});
+
+describe('search options', () => {
+  it('should validate the arguments', () => {
+    expect(parseSearchOptions({ mode: 'regex', scope: 'both', types: ['string'] })).toEqual({
+      mode: 'regex',
+      caseSensitive: undefined,
+      scope: 'both',
+      types: ['string'],
+    });
+    expect(() => parseSearchOptions({ mode: 'glob' })).toThrow(/mode must be one of: substring, regex/);
+    expect(() => parseSearchOptions({ types: 'string' })).toThrow(/types must be an array/);
+    expect(() => parseSearchOptions({ types: ['date'] })).toThrow(/types must be one of/);
+  });
+
+  it('should check value types', () => {
+    expect(matchesType([1], ['array'])).toBe(true);
+    expect(matchesType({}, ['array'])).toBe(false);
+    expect(matchesType('x', undefined)).toBe(true);
+  });
+});
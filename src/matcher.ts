@@ -0,0 +1,104 @@
+import { JsonValue, SEARCH_MODES, SEARCH_SCOPES, SEARCH_TYPES, SearchMode, SearchOptions, SearchType } from './types.js';
+
+// Letters, digits and underscore count as word characters for "word" mode
+const WORD_CHARACTER = '[\\p{L}\\p{N}_]';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseEnum<T extends string>(value: unknown, name: string, allowed: readonly T[]): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${name} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+// Validate the matching arguments of search
+export function parseSearchOptions(args: { mode?: unknown; caseSensitive?: unknown; scope?: unknown; types?: unknown }): SearchOptions {
+  if (args.caseSensitive !== undefined && typeof args.caseSensitive !== 'boolean') {
+    throw new Error('caseSensitive must be a boolean');
+  }
+  if (args.types !== undefined && !Array.isArray(args.types)) {
+    throw new Error('types must be an array');
+  }
+
+  return {
+    mode: parseEnum(args.mode, 'mode', SEARCH_MODES),
+    caseSensitive: args.caseSensitive,
+    scope: parseEnum(args.scope, 'scope', SEARCH_SCOPES),
+    types: (args.types as unknown[] | undefined)?.map((type) => parseEnum(type, 'types', SEARCH_TYPES) as SearchType),
+  };
+}
+
+// Smallest number of edits turning `pattern` into any substring of `text`
+// (Sellers' approximate string matching)
+function approximateDistance(pattern: string, text: string): number {
+  let previous = Array.from({ length: pattern.length + 1 }, (_, index) => index);
+  let best = previous[pattern.length];
+  for (const ch of text) {
+    const current = [0];
+    for (let i = 1; i <= pattern.length; i++) {
+      const cost = pattern[i - 1] === ch ? 0 : 1;
+      current.push(Math.min(previous[i - 1] + cost, previous[i] + 1, current[i - 1] + 1));
+    }
+    best = Math.min(best, current[pattern.length]);
+    previous = current;
+  }
+  return best;
+}
+
+// Build a predicate that tells whether a text matches the search text:
+// - substring: contains it
+// - exact: is equal to it
+// - word: contains it as a whole word
+// - regex: matches it as a regular expression
+// - fuzzy: contains it with at most one edit per four characters
+export function createTextMatcher(searchText: string, mode: SearchMode = 'substring', caseSensitive = false): (text: string) => boolean {
+  if (mode === 'regex' || mode === 'word') {
+    let pattern: RegExp;
+    try {
+      const source = mode === 'word' ? `(?<!${WORD_CHARACTER})${escapeRegExp(searchText)}(?!${WORD_CHARACTER})` : searchText;
+      pattern = new RegExp(source, caseSensitive ? 'u' : 'iu');
+    } catch (error) {
+      throw new Error(`Invalid regex: ${error instanceof Error ? error.message : error}`);
+    }
+    return (text) => pattern.test(text);
+  }
+
+  const normalize = (text: string) => (caseSensitive ? text : text.toLowerCase());
+  const needle = normalize(searchText);
+  if (mode === 'exact') {
+    return (text) => normalize(text) === needle;
+  }
+  if (mode === 'fuzzy') {
+    const maxEdits = Math.floor(needle.length / 4);
+    return (text) => approximateDistance(needle, normalize(text)) <= maxEdits;
+  }
+  return (text) => normalize(text).includes(needle);
+}
+
+// Whether a value's type is one of the requested types (any type when none are given)
+export function matchesType(value: JsonValue, types: SearchType[] | undefined): boolean {
+  if (!types || types.length === 0) {
+    return true;
+  }
+  const type = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value === 'object' ? 'object' : typeof value;
+  return types.includes(type as SearchType);
+}
+
+// Whether a scalar value matches the search; null is only searched when
+// `types` asks for it
+export function matchesScalar(
+  value: string | number | boolean | null,
+  matches: (text: string) => boolean,
+  types: SearchType[] | undefined
+): boolean {
+  if (value === null && !types?.includes('null')) {
+    return false;
+  }
+  return matchesType(value, types) && matches(String(value));
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MAX_BYTES, paginate, paginateFiles, parsePageOptions } from './pagination.js';
+import { JSONMatch } from './types.js';
+
+const matches: JSONMatch[] = Array.from({ length: 5 }, (_, index) => ({
+  path: `$[${index}]`,
+  pointer: `/${index}`,
+  value: 'x'.repeat(10),
+}));
+
+describe('parsePageOptions', () => {
+  it('should apply defaults and validate arguments', () => {
+    expect(parsePageOptions({})).toEqual({ offset: 0, limit: undefined, maxBytes: DEFAULT_MAX_BYTES });
+    expect(parsePageOptions({ limit: 2, offset: 4, maxBytes: 100 })).toEqual({ offset: 4, limit: 2, maxBytes: 100 });
+    expect(() => parsePageOptions({ limit: 0 })).toThrow(/limit must be an integer of at least 1/);
+    expect(() => parsePageOptions({ offset: 1.5 })).toThrow(/offset must be an integer/);
+    expect(() => parsePageOptions({ offset: 1, cursor: 'abc' })).toThrow(/either offset or cursor/);
+    expect(() => parsePageOptions({ cursor: 'not a cursor' })).toThrow(/Invalid cursor/);
+  });
+});
+
+describe('paginate', () => {
+  it('should page by limit and continue from the cursor', () => {
+    const first = paginate(matches, parsePageOptions({ limit: 2 }));
+    expect(first).toMatchObject({ total: 5, offset: 0, count: 2, truncated: true });
+    expect(first.results).toEqual(matches.slice(0, 2));
+
+    const rest = paginate(matches, parsePageOptions({ cursor: first.nextCursor }));
+    expect(rest).toMatchObject({ total: 5, offset: 2, count: 3, truncated: false });
+    expect(rest.nextCursor).toBeUndefined();
+  });
+
+  it('should stop before the byte budget is exceeded', () => {
+    const size = Buffer.byteLength(JSON.stringify(matches[0], null, 2));
+    const page = paginate(matches, parsePageOptions({ maxBytes: size * 3 + 1 }));
+    expect(page).toMatchObject({ total: 5, count: 3, truncated: true });
+  });
+
+  it('should leave out the value of a match that alone exceeds the budget', () => {
+    const page = paginate(matches, parsePageOptions({ maxBytes: 10, offset: 1 }));
+    expect(page.results).toEqual([{ path: '$[1]', pointer: '/1', valueOmitted: true, valueBytes: 12 }]);
+    expect(page).toMatchObject({ offset: 1, count: 1, truncated: true });
+  });
+});
+
+describe('paginateFiles', () => {
+  it('should page across files and group the page by file', () => {
+    const groups = [
+      { file: 'a.json', matches: matches.slice(0, 2) },
+      { file: 'b.json', matches: [] },
+      { file: 'c.json', matches: matches.slice(2) },
+    ];
+    const page = paginateFiles(groups, parsePageOptions({ offset: 1, limit: 2 }));
+    expect(page).toMatchObject({ total: 5, offset: 1, count: 2, truncated: true });
+    expect(page.files).toEqual([
+      { file: 'a.json', results: [matches[1]] },
+      { file: 'c.json', results: [matches[2]] },
+    ]);
+  });
+
+  it('should pass each match with its file to expand', () => {
+    const groups = [
+      { file: 'a.json', matches: matches.slice(0, 1) },
+      { file: 'b.json', matches: matches.slice(1, 2) },
+    ];
+    const page = paginateFiles(groups, parsePageOptions({}), (file, match) => ({ ...match, value: file }));
+    expect(page.files.map((group) => group.results[0])).toMatchObject([{ value: 'a.json' }, { value: 'b.json' }]);
+  });
+});
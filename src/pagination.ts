@@ -0,0 +1,144 @@
+import { JSONMatch } from './types.js';
+
+// Serialized size of a page's results when no maxBytes is given
+export const DEFAULT_MAX_BYTES = 64 * 1024;
+
+export interface PageOptions {
+  offset: number;
+  limit?: number;
+  maxBytes: number;
+}
+
+// A match whose value alone exceeds maxBytes; query a narrower path to read it
+export interface OmittedMatch {
+  path: string;
+  pointer: string;
+  line?: number;
+  valueOmitted: true;
+  valueBytes: number;
+}
+
+export interface ResultPage<T = JSONMatch> {
+  total: number;
+  offset: number;
+  count: number;
+  truncated: boolean;
+  nextCursor?: string;
+  results: Array<T | OmittedMatch>;
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as { offset: unknown };
+    if (typeof offset === 'number' && Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor: pass the nextCursor of a previous response');
+}
+
+function parseCount(value: unknown, name: string, minimum: number): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < minimum) {
+    throw new Error(`${name} must be an integer of at least ${minimum}`);
+  }
+  return value;
+}
+
+// Validate the paging arguments of search and query
+export function parsePageOptions(args: { limit?: unknown; offset?: unknown; cursor?: unknown; maxBytes?: unknown }): PageOptions {
+  if (args.offset !== undefined && args.cursor !== undefined) {
+    throw new Error('Specify either offset or cursor, not both');
+  }
+  if (args.cursor !== undefined && typeof args.cursor !== 'string') {
+    throw new Error('cursor must be a string');
+  }
+
+  return {
+    offset: args.cursor !== undefined ? decodeCursor(args.cursor as string) : (parseCount(args.offset, 'offset', 0) ?? 0),
+    limit: parseCount(args.limit, 'limit', 1),
+    maxBytes: parseCount(args.maxBytes, 'maxBytes', 1) ?? DEFAULT_MAX_BYTES,
+  };
+}
+
+// Cut one page out of the matches. A page ends at `limit` matches or when the
+// next match would take the serialized results past `maxBytes`; a first match
+// that alone is too large is returned without its value so paging can go on.
+// `expand` turns the matches that make it onto the page into results, adding
+// details or picking out parts of them.
+export function paginate<T = JSONMatch>(
+  matches: JSONMatch[],
+  options: PageOptions,
+  expand: (match: JSONMatch) => T = (match) => match as T
+): ResultPage<T> {
+  const end = options.limit === undefined ? matches.length : Math.min(matches.length, options.offset + options.limit);
+  const results: Array<T | OmittedMatch> = [];
+  let bytes = 0;
+
+  for (let index = options.offset; index < end; index++) {
+    const result = expand(matches[index]);
+    const size = Buffer.byteLength(JSON.stringify(result, null, 2));
+    if (bytes + size > options.maxBytes) {
+      if (results.length === 0) {
+        // Details added by expand, such as context snippets, are left out along with the value
+        const { value, ...location } = matches[index];
+        results.push({ ...location, valueOmitted: true, valueBytes: Buffer.byteLength(JSON.stringify(value)) });
+      }
+      break;
+    }
+    results.push(result);
+    bytes += size;
+  }
+
+  const next = options.offset + results.length;
+  const truncated = next < matches.length;
+  return {
+    total: matches.length,
+    offset: options.offset,
+    count: results.length,
+    truncated,
+    ...(truncated ? { nextCursor: encodeCursor(next) } : {}),
+    results,
+  };
+}
+
+export interface FileMatches {
+  file: string;
+  matches: JSONMatch[];
+}
+
+export interface FilesResultPage<T = JSONMatch> extends Omit<ResultPage<T>, 'results'> {
+  files: Array<{ file: string; results: Array<T | OmittedMatch> }>;
+}
+
+// Page through the matches of several files as one list, in file order, and
+// group the page by file. `expand` receives the file a match belongs to.
+export function paginateFiles<T = JSONMatch>(
+  groups: FileMatches[],
+  options: PageOptions,
+  expand: (file: string, match: JSONMatch) => T = (_file, match) => match as T
+): FilesResultPage<T> {
+  const matches = groups.flatMap((group) => group.matches);
+  const owners = groups.flatMap((group) => group.matches.map(() => group.file));
+  const { results, ...page } = paginate(matches, options, (match) => expand(owners[matches.indexOf(match, options.offset)], match));
+
+  const files: FilesResultPage<T>['files'] = [];
+  results.forEach((result, position) => {
+    const file = owners[options.offset + position];
+    const last = files[files.length - 1];
+    if (last?.file === file) {
+      last.results.push(result);
+    } else {
+      files.push({ file, results: [result] });
+    }
+  });
+  return { ...page, files };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { applyOperations, parseOperations } from './patch.js';
+import { JsonValue } from './types.js';
+
+const registry: JsonValue = {
+  version: 1,
+  entries: [
+    { id: 'a', url: 'https://a.example' },
+    { id: 'b', url: 'https://b.example' },
+  ],
+};
+
+describe('patch', () => {
+  it('should apply operations in order', () => {
+    const result = applyOperations(
+      registry,
+      parseOperations([
+        { op: 'delete', path: "$.entries[?(@.id == 'a')]" },
+        { op: 'append', path: '$.entries', value: { id: 'a', url: 'https://new.example' } },
+        { op: 'set', path: '$.version', value: 2 },
+      ])
+    );
+
+    expect(result).toEqual({
+      version: 2,
+      entries: [
+        { id: 'b', url: 'https://b.example' },
+        { id: 'a', url: 'https://new.example' },
+      ],
+    });
+  });
+
+  it('should support insert, move and copy', () => {
+    const result = applyOperations(
+      registry,
+      parseOperations([
+        { op: 'insert', path: '$.entries', index: 0, value: { id: 'z' } },
+        { op: 'copy', from: '$.entries[1].url', path: '$.primary' },
+        { op: 'move', from: '$.version', path: '$.meta' },
+      ])
+    );
+
+    expect(result).toEqual({
+      entries: [{ id: 'z' }, { id: 'a', url: 'https://a.example' }, { id: 'b', url: 'https://b.example' }],
+      primary: 'https://a.example',
+      meta: 1,
+    });
+  });
+
+  it('should name the failing operation and leave the input untouched', () => {
+    const original = JSON.parse(JSON.stringify(registry));
+    expect(() =>
+      applyOperations(
+        registry,
+        parseOperations([
+          { op: 'set', path: '$.version', value: 2 },
+          { op: 'append', path: '$.version', value: 3 },
+        ])
+      )
+    ).toThrow(/^Operation 1 \(append\) failed:/);
+    expect(registry).toEqual(original);
+  });
+
+  it('should reject invalid operations by index', () => {
+    expect(() => parseOperations([{ op: 'set', path: '$.a', value: 1 }, { op: 'rename', path: '$.a' }])).toThrow(
+      /^Operation 1 is invalid/
+    );
+    expect(() => parseOperations([{ op: 'move', path: '$.a' }])).toThrow(
+      /Operation 0 is invalid: Missing required parameter: from/
+    );
+    expect(() => parseOperations({ op: 'set' })).toThrow('operations must be an array');
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  appendToArrayAtPath,
+  copyAtPath,
+  deleteAtPath,
+  insertIntoArrayAtPath,
+  moveAtPath,
+  resolveLocation,
+  setAtPath,
+} from './tools.js';
+import { z } from 'zod';
+import { JsonValue, Location, PatchOperation, PatchOperationSchema } from './types.js';
+
+// Validate a raw list of operations against a schema, naming the index of the first invalid one
+export function parseOperationList<T>(input: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T[] {
+  if (!Array.isArray(input)) {
+    throw new Error('operations must be an array');
+  }
+
+  return input.map((operation, index) => {
+    const result = schema.safeParse(operation);
+    if (!result.success) {
+      const issues = result.error.issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ');
+      throw new Error(`Operation ${index} is invalid: ${issues}`);
+    }
+    return result.data;
+  });
+}
+
+// Validate a raw list of patch tool operations
+export function parseOperations(input: unknown): PatchOperation[] {
+  const operations = parseOperationList(input, PatchOperationSchema);
+  operations.forEach((operation, index) => {
+    try {
+      resolveLocation(operation.path, operation.pointer);
+      if (operation.op === 'move' || operation.op === 'copy') {
+        resolveLocation(operation.from, operation.fromPointer, 'from', 'fromPointer');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${index} is invalid: ${message}`);
+    }
+  });
+  return operations;
+}
+
+function applyOperation(data: JsonValue, operation: PatchOperation): JsonValue {
+  const path = resolveLocation(operation.path, operation.pointer);
+  switch (operation.op) {
+    case 'set':
+      return setAtPath(data, path, operation.value, operation.all ?? false, operation.createParents ?? false);
+    case 'delete':
+      return deleteAtPath(data, path);
+    case 'append':
+      return appendToArrayAtPath(data, path, operation.value);
+    case 'insert':
+      return insertIntoArrayAtPath(data, path, operation.index, operation.value);
+    case 'move':
+      return moveAtPath(data, resolveLocation(operation.from, operation.fromPointer, 'from', 'fromPointer'), path);
+    case 'copy':
+      return copyAtPath(data, resolveLocation(operation.from, operation.fromPointer, 'from', 'fromPointer'), path);
+  }
+}
+
+// Apply operations in order to an in-memory document. Each step works on a copy,
+// so when one fails the input is untouched and the error names the failing step.
+export function applyOperations(data: JsonValue, operations: PatchOperation[]): JsonValue {
+  return operations.reduce((current, operation, index) => {
+    try {
+      return applyOperation(current, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${index} (${operation.op}) failed: ${message}`);
+    }
+  }, data);
+}
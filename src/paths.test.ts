@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { formatJSONPath, formatJSONPointer, parseJSONPath, parseJSONPointer, tokenizeJSONPath } from './paths.js';
+
+describe('paths', () => {
+  it('should format dotted keys, quoted keys and indices', () => {
+    expect(formatJSONPath([])).toBe('$');
+    expect(formatJSONPath(['store', 'book', 0, 'title'])).toBe('$.store.book[0].title');
+    expect(formatJSONPath(['a.b', "it's", 'back\\slash'])).toBe("$['a.b']['it\\'s']['back\\\\slash']");
+  });
+
+  it('should round-trip formatted paths through parseJSONPath', () => {
+    const segments = ['a', 'b.c', "it's", 'x\\y', 3, '[z]'];
+    expect(parseJSONPath(formatJSONPath(segments))).toEqual(segments);
+    expect(parseJSONPath('$["double \\" quote"]')).toEqual(['double " quote']);
+  });
+
+  it('should reject paths that select more than one location', () => {
+    expect(() => parseJSONPath('$.a[*]')).toThrow(/Not a concrete path segment/);
+    expect(() => parseJSONPath('$..a')).toThrow(/Not a concrete path segment/);
+    expect(() => parseJSONPath('$.items[?(@.id == 1)]')).toThrow(/Not a concrete path segment/);
+    expect(() => parseJSONPath('$.items[0:2]')).toThrow(/Not a concrete path segment/);
+    expect(() => parseJSONPath('items')).toThrow(/must start with "\$"/);
+  });
+
+  it('should tokenize filters containing brackets and quotes', () => {
+    expect(tokenizeJSONPath("$..book[?(@.tags[0] == ']')].title")).toEqual([
+      '$',
+      '..book',
+      "[?(@.tags[0] == ']')]",
+      '.title',
+    ]);
+  });
+
+  it('should escape and unescape JSON Pointer tokens', () => {
+    expect(formatJSONPointer(['a/b', '~c', 0])).toBe('/a~1b/~0c/0');
+    expect(parseJSONPointer('/a~1b/~0c/0')).toEqual(['a/b', '~c', '0']);
+    expect(parseJSONPointer('')).toEqual([]);
+    expect(() => parseJSONPointer('a/b')).toThrow(/must be empty or start with/);
+    expect(() => parseJSONPointer('/a~2')).toThrow(/must be followed by 0 or 1/);
+  });
+});
@@ -0,0 +1,136 @@
+import { PathSegment } from './types.js';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Format path segments as a normalized JSONPath: dotted keys where possible,
+// bracket-quoted keys otherwise, and bracketed array indices.
+export function formatJSONPath(segments: PathSegment[]): string {
+  let path = '$';
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      path += `[${segment}]`;
+    } else if (IDENTIFIER.test(segment)) {
+      path += `.${segment}`;
+    } else {
+      path += `['${segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+    }
+  }
+  return path;
+}
+
+// Format path segments as an RFC 6901 JSON Pointer
+export function formatJSONPointer(segments: PathSegment[]): string {
+  return segments.map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+// Split an RFC 6901 JSON Pointer into its unescaped reference tokens
+export function parseJSONPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => {
+      if (/~(?![01])/.test(token)) {
+        throw new Error(`Invalid JSON Pointer "${pointer}": "~" must be followed by 0 or 1`);
+      }
+      return token.replace(/~1/g, '/').replace(/~0/g, '~');
+    });
+}
+
+// Split a JSONPath expression into raw segments ("$", ".name", "[...]", "..name"),
+// honoring quotes and nested brackets inside filter expressions. Joining the
+// segments gives back the original expression.
+export function tokenizeJSONPath(path: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+
+  if (path.startsWith('$')) {
+    tokens.push('$');
+    i = 1;
+  }
+
+  const readName = () => {
+    const start = i;
+    while (i < path.length && path[i] !== '.' && path[i] !== '[') i++;
+    return path.slice(start, i);
+  };
+
+  while (i < path.length) {
+    if (path.startsWith('..', i)) {
+      i += 2;
+      tokens.push(i < path.length && path[i] !== '[' ? `..${readName()}` : '..');
+    } else if (path[i] === '.') {
+      i++;
+      tokens.push(`.${readName()}`);
+    } else if (path[i] === '[') {
+      const start = i;
+      let depth = 0;
+      let quote: string | null = null;
+      for (; i < path.length; i++) {
+        const ch = path[i];
+        if (quote) {
+          if (ch === '\\') i++;
+          else if (ch === quote) quote = null;
+        } else if (ch === "'" || ch === '"') {
+          quote = ch;
+        } else if (ch === '[') {
+          depth++;
+        } else if (ch === ']' && --depth === 0) {
+          break;
+        }
+      }
+      if (i >= path.length) {
+        throw new Error(`Unterminated bracket in JSONPath: ${path}`);
+      }
+      i++;
+      tokens.push(path.slice(start, i));
+    } else {
+      tokens.push(`.${readName()}`);
+    }
+  }
+
+  return tokens;
+}
+
+// Interpret a raw segment as a concrete key or index, or return null when it is
+// a wildcard, filter, slice, union or other expression that selects many nodes.
+export function decodeJSONPathSegment(token: string): PathSegment | null {
+  if (token.startsWith('.')) {
+    const name = token.slice(1);
+    return name === '' || name === '*' || name.startsWith('.') ? null : name;
+  }
+
+  const inner = token.slice(1, -1).trim();
+  if (/^[0-9]+$/.test(inner)) {
+    return Number(inner);
+  }
+
+  const quoted = inner.match(/^(['"])((?:\\.|(?!\1).)*)\1$/);
+  if (quoted) {
+    return quoted[2].replace(/\\(.)/g, '$1');
+  }
+
+  return null;
+}
+
+// Parse a JSONPath that addresses exactly one location (no wildcards, filters,
+// slices, unions or recursive descent) into its segments.
+export function parseJSONPath(path: string): PathSegment[] {
+  const tokens = tokenizeJSONPath(path);
+  if (tokens[0] !== '$') {
+    throw new Error(`JSONPath must start with "$": ${path}`);
+  }
+
+  return tokens.slice(1).map((token) => {
+    const segment = decodeJSONPathSegment(token);
+    if (segment === null) {
+      throw new Error(`Not a concrete path segment: ${token} (wildcards, filters, slices and recursive descent are not allowed here)`);
+    }
+    return segment;
+  });
+}
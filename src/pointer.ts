@@ -0,0 +1,127 @@
+import { parseJSONPointer } from './paths.js';
+import { JSONPathResult, JsonValue, PathSegment, isJsonObject } from './types.js';
+
+// In-place primitives for RFC 6901 JSON Pointer addressing. The mutating helpers
+// modify `data` and return the (possibly replaced) document root; callers clone first.
+
+type Container = JsonValue[] | { [key: string]: JsonValue };
+
+function isContainer(value: JsonValue): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+// Array indices in a pointer must be canonical decimal numbers (no sign, no leading zeros)
+function parseArrayIndex(token: string, pointer: string): number {
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}" in ${pointer}`);
+  }
+  return Number(token);
+}
+
+function getChild(node: JsonValue, token: string, pointer: string): JsonValue {
+  if (Array.isArray(node)) {
+    const index = parseArrayIndex(token, pointer);
+    if (index >= node.length) {
+      throw new Error(`Path not found: ${pointer}`);
+    }
+    return node[index];
+  }
+  if (isJsonObject(node) && Object.prototype.hasOwnProperty.call(node, token)) {
+    return node[token];
+  }
+  throw new Error(`Path not found: ${pointer}`);
+}
+
+// Resolve an RFC 6901 JSON Pointer against a document; throws when it does not exist
+export function getAtPointer(data: JsonValue, pointer: string): JsonValue {
+  return parseJSONPointer(pointer).reduce<JsonValue>((node, token) => getChild(node, token, pointer), data);
+}
+
+// Resolve a pointer to its node and parent, or null when nothing exists there
+export function findAtPointer(data: JsonValue, pointer: string): JSONPathResult | null {
+  let result: JSONPathResult = { value: data, parent: null, parentProperty: undefined };
+  for (const token of parseJSONPointer(pointer)) {
+    const node = result.value;
+    if (Array.isArray(node)) {
+      if (!/^(0|[1-9][0-9]*)$/.test(token) || Number(token) >= node.length) {
+        return null;
+      }
+      result = { value: node[Number(token)], parent: node, parentProperty: Number(token) };
+    } else if (isJsonObject(node) && Object.prototype.hasOwnProperty.call(node, token)) {
+      result = { value: node[token], parent: node, parentProperty: token };
+    } else {
+      return null;
+    }
+  }
+  return result;
+}
+
+// Convert an existing pointer into typed segments (array indices become numbers)
+export function pointerToSegments(data: JsonValue, pointer: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let node = data;
+  for (const token of parseJSONPointer(pointer)) {
+    segments.push(Array.isArray(node) ? Number(token) : token);
+    node = getChild(node, token, pointer);
+  }
+  return segments;
+}
+
+// Resolve the container that holds the last token of a pointer
+function resolveParent(data: JsonValue, pointer: string): { parent: Container; key: string } {
+  const tokens = parseJSONPointer(pointer);
+  const key = tokens.pop() as string;
+  const parent = tokens.reduce<JsonValue>((node, token) => getChild(node, token, pointer), data);
+  if (!isContainer(parent)) {
+    throw new Error(`Parent of ${pointer} is not an object or array`);
+  }
+  return { parent, key };
+}
+
+// Add per RFC 6902 "add": insert into arrays ("-" appends), create or replace object members
+export function addAtPointer(data: JsonValue, pointer: string, value: JsonValue): JsonValue {
+  if (pointer === '') {
+    return value;
+  }
+  const { parent, key } = resolveParent(data, pointer);
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : parseArrayIndex(key, pointer);
+    if (index > parent.length) {
+      throw new Error(`Index ${index} is out of bounds for array of length ${parent.length}`);
+    }
+    parent.splice(index, 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return data;
+}
+
+// Remove an existing member or array element
+export function removeAtPointer(data: JsonValue, pointer: string): JsonValue {
+  if (pointer === '') {
+    throw new Error('Cannot remove the document root');
+  }
+  const { parent, key } = resolveParent(data, pointer);
+  getChild(parent, key, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+  return data;
+}
+
+// Replace an existing member or array element
+export function replaceAtPointer(data: JsonValue, pointer: string, value: JsonValue): JsonValue {
+  if (pointer === '') {
+    return value;
+  }
+  const { parent, key } = resolveParent(data, pointer);
+  getChild(parent, key, pointer);
+  if (Array.isArray(parent)) {
+    parent[Number(key)] = value;
+  } else {
+    parent[key] = value;
+  }
+  return data;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { formatResult, parseResultShape, projectValue, shapeMatches } from './projection.js';
+import { queryMatches } from './tools.js';
+import { JsonValue } from './types.js';
+
+const data: JsonValue = {
+  users: [
+    { id: 1, name: 'Ada', owner: { name: 'ops' }, tags: ['a', 'b'], bio: 'x'.repeat(100) },
+    { id: 2, name: 'Linus', tags: [] },
+  ],
+};
+
+describe('parseResultShape', () => {
+  it('should default to all and accept lists or maps of sub-paths', () => {
+    expect(parseResultShape({})).toEqual({ resultType: 'all' });
+    expect(parseResultShape({ projection: ['id', 'owner.name'] })).toEqual({
+      resultType: 'all',
+      projection: { id: 'id', 'owner.name': 'owner.name' },
+    });
+    expect(parseResultShape({ resultType: 'value', projection: { owner: 'owner.name' } })).toEqual({
+      resultType: 'value',
+      projection: { owner: 'owner.name' },
+    });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseResultShape({ resultType: 'keys' })).toThrow(/resultType must be one of/);
+    expect(() => parseResultShape({ projection: [] })).toThrow(/projection must be a non-empty list/);
+    expect(() => parseResultShape({ projection: { id: 1 } })).toThrow(/projection must be/);
+    expect(() => parseResultShape({ resultType: 'path', projection: ['id'] })).toThrow(/cannot be combined/);
+  });
+});
+
+describe('projectValue', () => {
+  it('should pick concrete sub-paths and collect wildcard ones', () => {
+    const user = (data as { users: JsonValue[] }).users[0];
+    expect(projectValue(user, { id: 'id', owner: 'owner.name', first: '[0]', tags: 'tags[*]', missing: 'nope' })).toEqual({
+      id: 1,
+      owner: 'ops',
+      tags: ['a', 'b'],
+    });
+    expect(projectValue(user, { name: '@.name', same: '$.id' })).toEqual({ name: 'Ada', same: 1 });
+  });
+});
+
+describe('shapeMatches', () => {
+  it('should project each match', () => {
+    const shaped = shapeMatches(queryMatches(data, '$.users[*]'), parseResultShape({ projection: ['id', 'name'] }), data);
+    expect(shaped).toEqual([
+      { path: '$.users[0]', pointer: '/users/0', value: { id: 1, name: 'Ada' } },
+      { path: '$.users[1]', pointer: '/users/1', value: { id: 2, name: 'Linus' } },
+    ]);
+  });
+
+  it('should return each parent once', () => {
+    const shape = parseResultShape({ resultType: 'parent', projection: ['id'] });
+    expect(shapeMatches(queryMatches(data, '$.users[0][id,name]'), shape, data)).toEqual([
+      { path: '$.users[0]', pointer: '/users/0', value: { id: 1 } },
+    ]);
+    expect(shapeMatches(queryMatches(data, '$'), shape, data)).toEqual([]);
+    expect(() => shapeMatches([], shape)).toThrow(/not supported when streaming/);
+  });
+});
+
+describe('formatResult', () => {
+  it('should pick the part of a match named by the result type', () => {
+    const [match] = queryMatches(data, '$.users[1].name');
+    expect(formatResult('all')(match)).toBe(match);
+    expect(formatResult('value')(match)).toBe('Linus');
+    expect(formatResult('path')(match)).toBe('$.users[1].name');
+    expect(formatResult('pointer')(match)).toBe('/users/1/name');
+  });
+});
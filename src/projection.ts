@@ -0,0 +1,120 @@
+import { formatJSONPath, formatJSONPointer, parseJSONPath } from './paths.js';
+import { findAtPointer, getAtPointer, pointerToSegments } from './pointer.js';
+import { queryByPath } from './tools.js';
+import { JSONMatch, JsonValue, Projection, RESULT_TYPES, ResultType } from './types.js';
+
+export interface ResultShape {
+  resultType: ResultType;
+  projection?: Projection;
+}
+
+// Validate the resultType and projection arguments of query. A projection is a
+// list of sub-paths (each also its output name) or an { alias: subPath } map.
+export function parseResultShape(args: { resultType?: unknown; projection?: unknown }): ResultShape {
+  if (args.resultType !== undefined && !RESULT_TYPES.includes(args.resultType as ResultType)) {
+    throw new Error(`resultType must be one of: ${RESULT_TYPES.join(', ')}`);
+  }
+  const resultType = (args.resultType as ResultType | undefined) ?? 'all';
+  if (args.projection === undefined) {
+    return { resultType };
+  }
+
+  const projection = Array.isArray(args.projection)
+    ? Object.fromEntries(args.projection.map((subPath) => [subPath, subPath]))
+    : args.projection;
+  if (
+    typeof projection !== 'object' ||
+    projection === null ||
+    Object.keys(projection).length === 0 ||
+    !Object.values(projection).every((subPath) => typeof subPath === 'string')
+  ) {
+    throw new Error('projection must be a non-empty list of sub-paths or an object mapping names to sub-paths');
+  }
+  if (resultType === 'path' || resultType === 'pointer') {
+    throw new Error(`projection cannot be combined with resultType "${resultType}"`);
+  }
+  return { resultType, projection: projection as Projection };
+}
+
+// Turn a sub-path relative to a match ("id", "owner.name", "[0]", "@.tags[*]")
+// into a JSONPath rooted at the match
+function rootSubPath(subPath: string): string {
+  if (subPath.startsWith('$')) return subPath;
+  if (subPath.startsWith('@')) return `$${subPath.slice(1)}`;
+  return subPath.startsWith('[') ? `$${subPath}` : `$.${subPath}`;
+}
+
+// Resolve a sub-path relative to a value. A concrete sub-path gives its value, or
+// undefined when missing; one with wildcards or filters gives an array.
+export function resolveSubPath(value: JsonValue, subPath: string): JsonValue | undefined {
+  const path = rootSubPath(subPath);
+  let pointer: string;
+  try {
+    pointer = formatJSONPointer(parseJSONPath(path));
+  } catch {
+    return queryByPath(value, path);
+  }
+  return findAtPointer(value, pointer)?.value;
+}
+
+// All values a sub-path selects below a value (none when it is missing)
+export function selectSubPath(value: JsonValue, subPath: string): JsonValue[] {
+  return queryByPath(value, rootSubPath(subPath));
+}
+
+// Pick the projected sub-paths out of a value, leaving out missing ones
+export function projectValue(value: JsonValue, projection: Projection): JsonValue {
+  const projected: Record<string, JsonValue> = {};
+  for (const [name, subPath] of Object.entries(projection)) {
+    const picked = resolveSubPath(value, subPath);
+    if (picked !== undefined) {
+      projected[name] = picked;
+    }
+  }
+  return projected;
+}
+
+// Replace each match by the object or array containing it; matches sharing a
+// parent give it once, and the document root (which has no parent) is dropped
+function parentMatches(data: JsonValue, matches: JSONMatch[]): JSONMatch[] {
+  const seen = new Set<string>();
+  const parents: JSONMatch[] = [];
+  for (const match of matches) {
+    const segments = pointerToSegments(data, match.pointer).slice(0, -1);
+    const pointer = formatJSONPointer(segments);
+    if (match.pointer === '' || seen.has(pointer)) {
+      continue;
+    }
+    seen.add(pointer);
+    parents.push({ path: formatJSONPath(segments), pointer, value: getAtPointer(data, pointer) });
+  }
+  return parents;
+}
+
+// Apply resultType "parent" and the projection to query matches. `data` is the
+// whole document, needed only for parents.
+export function shapeMatches(matches: JSONMatch[], shape: ResultShape, data?: JsonValue): JSONMatch[] {
+  let shaped = matches;
+  if (shape.resultType === 'parent') {
+    if (data === undefined) {
+      throw new Error('resultType "parent" is not supported when streaming');
+    }
+    shaped = parentMatches(data, shaped);
+  }
+  const { projection } = shape;
+  return projection ? shaped.map((match) => ({ ...match, value: projectValue(match.value, projection) })) : shaped;
+}
+
+// What a page lists for a match under the given result type
+export function formatResult(resultType: ResultType): (match: JSONMatch) => JSONMatch | JsonValue {
+  switch (resultType) {
+    case 'value':
+      return (match) => match.value;
+    case 'path':
+      return (match) => match.path;
+    case 'pointer':
+      return (match) => match.pointer;
+    default:
+      return (match) => match;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ResourceSubscriptions, formatResourceUri, parseResourceUri, selectFragment } from './resources.js';
+
+describe('resource URIs', () => {
+  it('should format and parse file and fragment', () => {
+    const uri = formatResourceUri('/data/my file#1.json', '$.items[*]');
+    expect(uri).toBe('json:///data/my%20file%231.json#%24.items%5B*%5D');
+    expect(parseResourceUri(uri)).toEqual({ file: '/data/my file#1.json', fragment: '$.items[*]' });
+  });
+
+  it('should accept fully encoded files and raw fragments', () => {
+    expect(parseResourceUri('json://%2Fdata%2Fa.json#/items/0')).toEqual({ file: '/data/a.json', fragment: '/items/0' });
+    expect(parseResourceUri('json:///data/a.json#')).toEqual({ file: '/data/a.json', fragment: undefined });
+  });
+
+  it('should reject other URIs', () => {
+    expect(() => parseResourceUri('file:///data/a.json')).toThrow(/Unsupported resource URI/);
+    expect(() => parseResourceUri('json://#/a')).toThrow(/Invalid resource URI/);
+  });
+});
+
+describe('selectFragment', () => {
+  const data = { items: [{ id: 1 }, { id: 2 }] };
+
+  it('should select by JSON Pointer or JSONPath', () => {
+    expect(selectFragment(data, undefined)).toBe(data);
+    expect(selectFragment(data, '/items/1/id')).toBe(2);
+    expect(selectFragment(data, '$.items[*].id')).toEqual([1, 2]);
+    expect(() => selectFragment(data, 'items')).toThrow(/must be a JSONPath/);
+  });
+});
+
+describe('ResourceSubscriptions', () => {
+  let testDir: string;
+  let file: string;
+  let notified: string[];
+  let subscriptions: ResourceSubscriptions;
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 500));
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-resources-'));
+    file = join(testDir, 'watched.json');
+    writeFileSync(file, '{}');
+    notified = [];
+    subscriptions = new ResourceSubscriptions((uri) => notified.push(uri));
+  });
+
+  afterAll(() => {
+    subscriptions.close();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report changes to subscribed files once per burst', async () => {
+    const uri = formatResourceUri(file);
+    const partUri = formatResourceUri(file, '/a');
+    subscriptions.subscribe(uri);
+    subscriptions.subscribe(partUri);
+
+    subscriptions.changed(file);
+    subscriptions.changed(file);
+    subscriptions.changed(join(testDir, 'other.json'));
+    await settle();
+    expect(notified).toEqual([uri, partUri]);
+
+    notified.length = 0;
+    writeFileSync(join(testDir, 'replacement.json'), '{"a":1}');
+    renameSync(join(testDir, 'replacement.json'), file);
+    await settle();
+    expect(notified).toEqual([uri, partUri]);
+
+    notified.length = 0;
+    subscriptions.unsubscribe(uri);
+    subscriptions.unsubscribe(partUri);
+    writeFileSync(file, '{"a":2}');
+    await settle();
+    expect(notified).toEqual([]);
+  });
+});
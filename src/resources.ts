@@ -0,0 +1,140 @@
+import { FSWatcher, watch } from 'fs';
+import { dirname, resolve } from 'path';
+import { queryByPath } from './tools.js';
+import { getAtPointer } from './pointer.js';
+import { JsonValue } from './types.js';
+
+export const RESOURCE_SCHEME = 'json://';
+
+// URI template for reading part of a file; the fragment is a JSONPath or JSON Pointer
+export const RESOURCE_TEMPLATE = 'json://{file}#{jsonpath}';
+
+// Changes to a file within this interval are reported once
+const NOTIFY_DELAY_MS = 100;
+
+export interface ResourceLocation {
+  file: string;
+  // JSONPath ("$...") or JSON Pointer ("/...") after the "#", if any
+  fragment?: string;
+}
+
+// Build the URI of a file, or of part of it
+export function formatResourceUri(file: string, fragment?: string): string {
+  const path = encodeURI(resolve(file)).replace(/[#?]/g, encodeURIComponent);
+  return fragment === undefined ? `${RESOURCE_SCHEME}${path}` : `${RESOURCE_SCHEME}${path}#${encodeURIComponent(fragment)}`;
+}
+
+// Parse a json:// URI; the file part may be percent-encoded in full (as the
+// template expands it) or only where needed
+export function parseResourceUri(uri: string): ResourceLocation {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri} (expected ${RESOURCE_TEMPLATE})`);
+  }
+  const rest = uri.slice(RESOURCE_SCHEME.length);
+  const hash = rest.indexOf('#');
+  try {
+    const file = decodeURIComponent(hash === -1 ? rest : rest.slice(0, hash));
+    const fragment = hash === -1 ? undefined : decodeURIComponent(rest.slice(hash + 1));
+    if (file === '') {
+      throw new Error('missing file');
+    }
+    return { file, fragment: fragment === '' ? undefined : fragment };
+  } catch (error) {
+    throw new Error(`Invalid resource URI: ${uri} (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+// Select the part of a document a fragment names: a JSON Pointer gives one
+// value, a JSONPath the array of values it matches
+export function selectFragment(data: JsonValue, fragment: string | undefined): JsonValue {
+  if (fragment === undefined) {
+    return data;
+  }
+  if (fragment.startsWith('/')) {
+    return getAtPointer(data, fragment);
+  }
+  if (fragment.startsWith('$')) {
+    return queryByPath(data, fragment);
+  }
+  throw new Error(`Resource fragment must be a JSONPath ("$...") or a JSON Pointer ("/..."), got "${fragment}"`);
+}
+
+// Tracks resource subscriptions and reports, once per burst of changes, the
+// subscribed URIs of files that were changed, whether by the server itself
+// (see changed) or by another program (seen by watching the file's directory,
+// so files replaced by renaming are noticed too)
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, Set<string>>();
+  private watchers = new Map<string, FSWatcher>();
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(private notify: (uri: string) => void) {}
+
+  // `filePath` is the path changes to the resource are reported for, when it differs
+  // from the one in the URI (a symlink's target)
+  subscribe(uri: string, filePath = parseResourceUri(uri).file): void {
+    const file = resolve(filePath);
+    const uris = this.subscriptions.get(file) ?? new Set();
+    uris.add(uri);
+    this.subscriptions.set(file, uris);
+    this.watch(dirname(file));
+  }
+
+  unsubscribe(uri: string, filePath = parseResourceUri(uri).file): void {
+    const file = resolve(filePath);
+    const uris = this.subscriptions.get(file);
+    uris?.delete(uri);
+    if (uris?.size === 0) {
+      this.subscriptions.delete(file);
+      this.unwatch(dirname(file));
+    }
+  }
+
+  // Report a change to a file, if anyone subscribed to it
+  changed(filePath: string): void {
+    const file = resolve(filePath);
+    if (!this.subscriptions.has(file) || this.pending.has(file)) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.pending.delete(file);
+      for (const uri of this.subscriptions.get(file) ?? []) {
+        this.notify(uri);
+      }
+    }, NOTIFY_DELAY_MS);
+    timer.unref();
+    this.pending.set(file, timer);
+  }
+
+  // Stop watching and drop pending notifications
+  close(): void {
+    for (const watcher of this.watchers.values()) watcher.close();
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.watchers.clear();
+    this.pending.clear();
+    this.subscriptions.clear();
+  }
+
+  private watch(directory: string): void {
+    if (this.watchers.has(directory)) {
+      return;
+    }
+    const watcher = watch(directory, (_event, name) => {
+      if (name) {
+        this.changed(resolve(directory, name.toString()));
+      }
+    });
+    // A directory that disappears just stops producing notifications
+    watcher.on('error', () => this.watchers.delete(directory));
+    watcher.unref();
+    this.watchers.set(directory, watcher);
+  }
+
+  private unwatch(directory: string): void {
+    const watched = [...this.subscriptions.keys()].some((file) => dirname(file) === directory);
+    if (!watched) {
+      this.watchers.get(directory)?.close();
+      this.watchers.delete(directory);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Sandbox } from './sandbox.js';
+
+describe('Sandbox', () => {
+  let testDir: string;
+  let root: string;
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-sandbox-'));
+    root = join(testDir, 'root');
+    mkdirSync(join(root, 'sub'), { recursive: true });
+    writeFileSync(join(root, 'sub', 'a.json'), '{}');
+    writeFileSync(join(testDir, 'secret.json'), '{}');
+    symlinkSync(join(testDir, 'secret.json'), join(root, 'link.json'));
+    symlinkSync(testDir, join(root, 'escape'));
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should allow everything without roots', () => {
+    expect(new Sandbox([]).allows(join(testDir, 'secret.json'))).toBe(true);
+  });
+
+  it('should allow paths inside the roots, existing or not', () => {
+    const sandbox = new Sandbox([root]);
+    expect(sandbox.check(join(root, 'sub', 'a.json'))).toBe(join(realpathSync(root), 'sub', 'a.json'));
+    expect(sandbox.allows(join(root, 'sub', 'new', 'b.json'))).toBe(true);
+    expect(sandbox.allows(join(root, 'sub', '..', 'sub', 'a.json'))).toBe(true);
+  });
+
+  it('should return the real path, so later reads and writes do not follow symlinks again', () => {
+    const sandbox = new Sandbox([root]);
+    symlinkSync(join(root, 'sub'), join(root, 'inside'));
+    expect(sandbox.check(join(root, 'inside', 'a.json'))).toBe(join(realpathSync(root), 'sub', 'a.json'));
+    expect(sandbox.check(join(root, 'inside', 'new.json'))).toBe(join(realpathSync(root), 'sub', 'new.json'));
+    expect(new Sandbox([]).check(join(root, 'inside', 'a.json'))).toBe(join(realpathSync(root), 'sub', 'a.json'));
+  });
+
+  it('should reject paths that leave the roots, including through symlinks', () => {
+    const sandbox = new Sandbox([root]);
+    expect(sandbox.allows(join(testDir, 'secret.json'))).toBe(false);
+    expect(sandbox.allows(join(root, '..', 'secret.json'))).toBe(false);
+    expect(sandbox.allows(`${root}-other/a.json`)).toBe(false);
+    expect(sandbox.allows(join(root, 'link.json'))).toBe(false);
+    expect(() => sandbox.check(join(root, 'escape', 'secret.json'))).toThrow(/Access denied: .* is outside the allowed roots/);
+  });
+
+  it('should require existing root directories', () => {
+    expect(() => new Sandbox([join(testDir, 'missing')])).toThrow(/Root directory not found/);
+  });
+});
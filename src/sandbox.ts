@@ -0,0 +1,47 @@
+import { existsSync, realpathSync, statSync } from 'fs';
+import { basename, dirname, join, resolve, sep } from 'path';
+
+// Resolve symlinks in a path that may not exist yet: the deepest existing
+// ancestor is resolved and the missing rest appended
+function realPath(filePath: string): string {
+  const absolute = resolve(filePath);
+  if (existsSync(absolute)) {
+    return realpathSync(absolute);
+  }
+  const parent = dirname(absolute);
+  return parent === absolute ? absolute : join(realPath(parent), basename(absolute));
+}
+
+// Restricts file access to the given root directories (after resolving
+// symlinks); with no roots every path is allowed
+export class Sandbox {
+  private roots: string[];
+
+  constructor(roots: string[]) {
+    this.roots = roots.map((root) => {
+      if (!existsSync(root) || !statSync(root).isDirectory()) {
+        throw new Error(`Root directory not found: ${root}`);
+      }
+      return realpathSync(root);
+    });
+  }
+
+  // Whether a path lies inside one of the roots
+  allows(filePath: string): boolean {
+    if (this.roots.length === 0) {
+      return true;
+    }
+    const real = realPath(filePath);
+    return this.roots.some((root) => real === root || real.startsWith(root.endsWith(sep) ? root : root + sep));
+  }
+
+  // Return the path with symlinks resolved, or throw when it is outside the
+  // roots. Callers read and write the returned path, so a symlink changed
+  // after the check cannot send them outside the roots.
+  check(filePath: string): string {
+    if (!this.allows(filePath)) {
+      throw new Error(`Access denied: ${filePath} is outside the allowed roots`);
+    }
+    return realPath(filePath);
+  }
+}
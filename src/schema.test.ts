@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { assertValid, resolveSchema, validateData } from './schema.js';
+import { JSONDocument, JsonValue } from './types.js';
+
+const schema: JsonValue = {
+  type: 'object',
+  properties: { port: { type: 'integer', maximum: 65535 }, admin: { type: 'string', format: 'email' } },
+  required: ['port'],
+};
+
+function documentAt(filePath: string, data: JsonValue): JSONDocument {
+  return { filePath, format: 'json', text: JSON.stringify(data), data };
+}
+
+describe('validateData', () => {
+  it('should report errors with pointers and paths', () => {
+    expect(validateData({ port: 70000, admin: 'nobody' }, schema)).toEqual([
+      { pointer: '/port', path: '$.port', keyword: 'maximum', message: 'must be <= 65535' },
+      { pointer: '/admin', path: '$.admin', keyword: 'format', message: 'must match format "email"' },
+    ]);
+    expect(validateData({}, schema)).toEqual([
+      { pointer: '', path: '$', keyword: 'required', message: "must have required property 'port'" },
+    ]);
+    expect(validateData({ port: 80 }, schema)).toEqual([]);
+  });
+
+  it('should follow the draft a schema declares', () => {
+    const draft2020 = { $schema: 'https://json-schema.org/draft/2020-12/schema', prefixItems: [{ type: 'string' }] };
+    expect(validateData([1], draft2020)).toMatchObject([{ pointer: '/0', keyword: 'type' }]);
+  });
+
+  it('should reject invalid schemas', () => {
+    expect(() => validateData({}, { $ref: '#/missing' })).toThrow(/Invalid JSON Schema/);
+  });
+});
+
+describe('resolveSchema', () => {
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-schema-'));
+    writeFileSync(join(testDir, 'config.schema.json'), JSON.stringify(schema));
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should take inline schemas and schema files', () => {
+    const document = documentAt(join(testDir, 'config.json'), {});
+    expect(resolveSchema({ type: 'object' }, document)).toEqual({ source: 'inline', schema: { type: 'object' } });
+    expect(resolveSchema(join(testDir, 'config.schema.json'), document).schema).toEqual(schema);
+  });
+
+  it("should resolve the document's $schema relative to the document", () => {
+    const document = documentAt(join(testDir, 'config.json'), { $schema: './config.schema.json' });
+    expect(resolveSchema(undefined, document)).toEqual({ source: '$schema: ./config.schema.json', schema });
+    expect(resolveSchema('$schema', document).schema).toEqual(schema);
+  });
+
+  it('should explain what cannot be resolved', () => {
+    const remote = documentAt(join(testDir, 'tsconfig.json'), { $schema: 'https://json.schemastore.org/tsconfig' });
+    expect(() => resolveSchema(undefined, remote)).toThrow(/Cannot fetch remote schema/);
+    expect(() => resolveSchema(undefined, documentAt(join(testDir, 'a.json'), {}))).toThrow(/no \$schema field/);
+    expect(() => resolveSchema(42, remote)).toThrow(/schema must be/);
+  });
+});
+
+describe('assertValid', () => {
+  it('should reject data that does not match', () => {
+    expect(() => assertValid({ port: 'x' }, { source: 'inline', schema })).toThrow(
+      /Edit rejected: the result would not match the schema \(inline\): \/port must be integer/
+    );
+    expect(() => assertValid({ port: 1 }, { source: 'inline', schema })).not.toThrow();
+  });
+});
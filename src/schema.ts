@@ -0,0 +1,121 @@
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+import { Ajv2019 } from 'ajv/dist/2019.js';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import ajvFormats from 'ajv-formats';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { loadDocument } from './formats.js';
+import { formatJSONPath } from './paths.js';
+import { findAtPointer, pointerToSegments } from './pointer.js';
+import { JSONDocument, JsonValue, JsonValueSchema, isJsonObject } from './types.js';
+
+// ajv-formats is CommonJS; its default export is the module itself
+const addFormats = ajvFormats as unknown as typeof ajvFormats.default;
+
+// Most validation errors reported for one file
+const MAX_SCHEMA_ERRORS = 100;
+
+// Compiled validators by schema text; schemas are few and rarely change
+const MAX_COMPILED_SCHEMAS = 50;
+const compiled = new Map<string, ValidateFunction>();
+
+// Value of a schema argument that stands for the document's own $schema
+export const DOCUMENT_SCHEMA = '$schema';
+
+export interface Schema {
+  // Where the schema came from: "inline", a file path, or "$schema: <reference>"
+  source: string;
+  schema: JsonValue;
+}
+
+export interface SchemaError {
+  pointer: string;
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+// Reads and parses a schema file
+type SchemaLoader = (filePath: string) => JsonValue;
+
+const loadSchemaDocument: SchemaLoader = (filePath) => loadDocument(filePath).data;
+
+// Read a schema file referenced by path or file:// URL, relative to `baseDirectory`
+function loadSchemaFile(reference: string, baseDirectory: string, load: SchemaLoader): JsonValue {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(reference) && !reference.startsWith('file:')) {
+    throw new Error(`Cannot fetch remote schema ${reference}: pass the schema inline or as a file path`);
+  }
+  const filePath = reference.startsWith('file:') ? fileURLToPath(reference) : resolve(baseDirectory, reference);
+  return load(filePath);
+}
+
+// Resolve a schema argument: an inline schema, a schema file path, or "$schema"
+// for the file named by the document's $schema field (relative to the document).
+// `load` reads schema files, so callers can cache or restrict them.
+export function resolveSchema(schema: unknown, document: JSONDocument, load: SchemaLoader = loadSchemaDocument): Schema {
+  if (schema === DOCUMENT_SCHEMA || schema === undefined) {
+    const reference = isJsonObject(document.data) ? document.data.$schema : undefined;
+    if (typeof reference !== 'string') {
+      throw new Error('No schema given and the document has no $schema field');
+    }
+    return { source: `$schema: ${reference}`, schema: loadSchemaFile(reference, dirname(document.filePath), load) };
+  }
+  if (typeof schema === 'string') {
+    return { source: schema, schema: loadSchemaFile(schema, process.cwd(), load) };
+  }
+  if (typeof schema === 'boolean' || (typeof schema === 'object' && schema !== null && !Array.isArray(schema))) {
+    return { source: 'inline', schema: JsonValueSchema.parse(schema) };
+  }
+  throw new Error('schema must be a JSON Schema object, a schema file path or "$schema"');
+}
+
+// Pick the validator for the draft a schema declares (draft-07 unless it declares 2019-09 or 2020-12)
+function createAjv(schema: JsonValue): Ajv {
+  const draft = isJsonObject(schema) && typeof schema.$schema === 'string' ? schema.$schema : '';
+  // Older drafts (04, 06) are validated with draft-07 rules rather than rejected
+  const options = { allErrors: true, strict: false, validateSchema: false };
+  const ajv = draft.includes('2020-12') ? new Ajv2020(options) : draft.includes('2019-09') ? new Ajv2019(options) : new Ajv(options);
+  addFormats(ajv);
+  return ajv;
+}
+
+function compileSchema(schema: JsonValue): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validate = compiled.get(key);
+  if (!validate) {
+    try {
+      validate = createAjv(schema).compile(schema as object | boolean);
+    } catch (error) {
+      throw new Error(`Invalid JSON Schema: ${error instanceof Error ? error.message : error}`);
+    }
+    if (compiled.size >= MAX_COMPILED_SCHEMAS) {
+      compiled.delete(compiled.keys().next().value!);
+    }
+    compiled.set(key, validate);
+  }
+  return validate;
+}
+
+function describeError(data: JsonValue, error: ErrorObject): SchemaError {
+  const pointer = error.instancePath;
+  const path = findAtPointer(data, pointer) ? formatJSONPath(pointerToSegments(data, pointer)) : pointer;
+  return { pointer, path, keyword: error.keyword, message: error.message ?? 'is invalid' };
+}
+
+// Validate data against a schema; returns the errors (the first 100), or none when valid
+export function validateData(data: JsonValue, schema: JsonValue): SchemaError[] {
+  const validate = compileSchema(schema);
+  if (validate(data)) {
+    return [];
+  }
+  return (validate.errors ?? []).slice(0, MAX_SCHEMA_ERRORS).map((error) => describeError(data, error));
+}
+
+// Throw when an edit would leave the document invalid against the schema
+export function assertValid(data: JsonValue, schema: Schema): void {
+  const errors = validateData(data, schema.schema);
+  if (errors.length > 0) {
+    const details = errors.map((error) => `${error.pointer || '/'} ${error.message}`).join('; ');
+    throw new Error(`Edit rejected: the result would not match the schema (${schema.source}): ${details}`);
+  }
+}
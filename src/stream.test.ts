@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { shouldStream, streamQuery, streamSearch } from './stream.js';
+import { queryMatches, searchInJSON } from './tools.js';
+
+// Large enough to span several read chunks, so tokens straddle chunk boundaries
+const data = {
+  meta: { count: 12000, 'odd key': [null, true, -1.5e3] },
+  items: Array.from({ length: 12000 }, (_, id) => ({
+    id,
+    name: `item "${id}" \\ é😀`,
+    price: id % 50,
+    tags: ['a', id % 3 === 0 ? 'fizz' : 'b'],
+    nested: { ok: id % 2 === 0 },
+  })),
+};
+
+describe('streaming', () => {
+  let testDir: string;
+  let file: string;
+
+  beforeAll(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'json-mcp-stream-'));
+    file = join(testDir, 'big.json');
+    writeFileSync(file, JSON.stringify(data, null, 2));
+  });
+
+  afterAll(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should match the in-memory query for supported paths', () => {
+    const paths = [
+      '$.meta',
+      "$.meta['odd key'][2]",
+      '$.items[7].name',
+      '$.items[11999]',
+      '$.items[10:20:3].id',
+      '$.*.count',
+      '$.items[?(@.price > 47)].id',
+      "$.items[?(@.tags[1] == 'fizz')].nested",
+      '$.items[?(@.nested.ok)].price',
+    ];
+    for (const path of paths) {
+      expect(streamQuery(file, path), path).toEqual(queryMatches(data, path));
+    }
+    expect(streamQuery(file, { pointer: '/items/5/tags/0' })).toEqual([
+      { path: '$.items[5].tags[0]', pointer: '/items/5/tags/0', value: 'a' },
+    ]);
+  });
+
+  it('should match the in-memory search', () => {
+    expect(streamSearch(file, 'FIZZ')).toEqual(searchInJSON(data, 'FIZZ'));
+    expect(streamSearch(file, '"11999" \\ é😀')).toEqual([
+      { path: '$.items[11999].name', pointer: '/items/11999/name', value: 'item "11999" \\ é😀' },
+    ]);
+  });
+
+  it('should reject paths that need the whole document', () => {
+    expect(() => streamQuery(file, '$..id')).toThrow(/does not support "\.\.id"/);
+    expect(() => streamQuery(file, '$.items[-1]')).toThrow(/does not support "\[-1\]"/);
+  });
+
+  it('should report syntax errors with their position', () => {
+    const broken = join(testDir, 'broken.json');
+    writeFileSync(broken, '{"a": [1, 2,]}');
+    expect(() => streamQuery(broken, '$.a')).toThrow(/Unexpected "\]" at position 12/);
+    writeFileSync(broken, '{"a": tru');
+    expect(() => streamSearch(broken, 'a')).toThrow(/Unexpected "t" at position 6/);
+  });
+
+  it('should stream large or explicitly requested JSON files only', () => {
+    expect(shouldStream(file, 'json', undefined)).toBe(false);
+    expect(shouldStream(file, 'json', true)).toBe(true);
+    expect(() => shouldStream(file, 'yaml', true)).toThrow(/only supported for JSON files/);
+    expect(() => shouldStream(file, 'json', 'yes')).toThrow(/stream must be a boolean/);
+  });
+});
@@ -0,0 +1,442 @@
+import { closeSync, openSync, readSync, statSync } from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { decodeJSONPathSegment, formatJSONPath, formatJSONPointer, parseJSONPath, parseJSONPointer, tokenizeJSONPath } from './paths.js';
+import { createTextMatcher, matchesScalar } from './matcher.js';
+import { DocumentFormat, JSONMatch, JsonValue, Location, PathSegment, SearchOptions, isJsonObject } from './types.js';
+
+// Files at least this large are searched and queried by streaming unless `stream: false` is passed
+export const STREAMING_THRESHOLD = 256 * 1024 * 1024;
+
+const CHUNK_SIZE = 1024 * 1024;
+
+type Primitive = string | number | boolean | null;
+
+// Callbacks for scanJSONFile. `path` is the location of the node and is reused
+// between calls, so copy it to keep it. Returning true stops the scan.
+interface ScanHandler {
+  open(path: PathSegment[], isArray: boolean): boolean | void;
+  close(path: PathSegment[]): boolean | void;
+  value(path: PathSegment[], value: Primitive): boolean | void;
+}
+
+interface Frame {
+  isArray: boolean;
+  index: number;
+}
+
+type Expect = 'value' | 'valueOrEnd' | 'key' | 'keyOrEnd' | 'colon' | 'commaOrEnd' | 'done';
+
+const NUMBER = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+const LITERALS: Record<string, Primitive> = { true: true, false: false, null: null };
+
+// Tokenize and parse a JSON file in fixed-size chunks, reporting nodes in
+// document order without building the document in memory
+function scanJSONFile(filePath: string, handler: ScanHandler): void {
+  const fd = openSync(filePath, 'r');
+  const bytes = Buffer.alloc(CHUNK_SIZE);
+  const decoder = new StringDecoder('utf8');
+  let text = '';
+  let pos = 0;
+  let consumed = 0;
+  let eof = false;
+
+  // Read the next chunk, keeping the unconsumed text; false at end of file
+  const fill = (): boolean => {
+    if (eof) return false;
+    const read = readSync(fd, bytes, 0, CHUNK_SIZE, null);
+    consumed += pos;
+    text = text.slice(pos) + (read === 0 ? decoder.end() : decoder.write(bytes.subarray(0, read)));
+    pos = 0;
+    eof = read === 0;
+    return true;
+  };
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${consumed + pos}`);
+  };
+
+  const stack: Frame[] = [];
+  const path: PathSegment[] = [];
+  let expect = 'value' as Expect;
+  let stopped = false;
+
+  const afterValue = () => {
+    expect = stack.length === 0 ? 'done' : 'commaOrEnd';
+  };
+
+  const startValue = (token: string, value?: Primitive) => {
+    const frame = stack[stack.length - 1];
+    if (frame?.isArray) {
+      path[path.length - 1] = frame.index;
+    }
+    if (token === '{' || token === '[') {
+      const isArray = token === '[';
+      stopped = handler.open(path, isArray) === true;
+      stack.push({ isArray, index: 0 });
+      path.push(isArray ? 0 : '');
+      expect = isArray ? 'valueOrEnd' : 'keyOrEnd';
+    } else {
+      stopped = handler.value(path, value as Primitive) === true;
+      afterValue();
+    }
+  };
+
+  try {
+    while (!stopped) {
+      let code = text.charCodeAt(pos);
+      while (code === 32 || code === 10 || code === 13 || code === 9) code = text.charCodeAt(++pos);
+      if (pos >= text.length) {
+        if (fill()) continue;
+        if (expect !== 'done') fail('Unexpected end of JSON input');
+        break;
+      }
+
+      const ch = text[pos];
+      code = text.charCodeAt(pos);
+      if (expect === 'done') fail(`Unexpected "${ch}" after the end of the document`);
+
+      if (code === 34) {
+        let end = pos;
+        for (;;) {
+          end = text.indexOf('"', end + 1);
+          if (end === -1) break;
+          let backslashes = 0;
+          while (text[end - 1 - backslashes] === '\\') backslashes++;
+          if (backslashes % 2 === 0) break;
+        }
+        if (end === -1) {
+          if (fill()) continue;
+          fail('Unterminated string');
+        }
+        const raw = text.slice(pos, end + 1);
+        const value: string = raw.includes('\\') ? JSON.parse(raw) : raw.slice(1, -1);
+        if (expect === 'key' || expect === 'keyOrEnd') {
+          path[path.length - 1] = value;
+          expect = 'colon';
+        } else if (expect === 'value' || expect === 'valueOrEnd') {
+          startValue('"', value);
+        } else {
+          fail('Unexpected string');
+        }
+        pos = end + 1;
+      } else if (code === 123 || code === 91) {
+        if (expect !== 'value' && expect !== 'valueOrEnd') fail(`Unexpected "${ch}"`);
+        pos++;
+        startValue(ch);
+      } else if (code === 125 || code === 93) {
+        const frame = stack[stack.length - 1];
+        const closesEmpty = expect === (ch === ']' ? 'valueOrEnd' : 'keyOrEnd');
+        if (!frame || frame.isArray !== (ch === ']') || (expect !== 'commaOrEnd' && !closesEmpty)) fail(`Unexpected "${ch}"`);
+        pos++;
+        stack.pop();
+        path.pop();
+        stopped = handler.close(path) === true;
+        afterValue();
+      } else if (code === 44) {
+        if (expect !== 'commaOrEnd') fail('Unexpected ","');
+        pos++;
+        const frame = stack[stack.length - 1];
+        if (frame.isArray) {
+          frame.index++;
+          expect = 'value';
+        } else {
+          expect = 'key';
+        }
+      } else if (code === 58) {
+        if (expect !== 'colon') fail('Unexpected ":"');
+        pos++;
+        expect = 'value';
+      } else if (expect !== 'value' && expect !== 'valueOrEnd') {
+        fail(`Unexpected "${ch}"`);
+      } else if (code === 45 || (code >= 48 && code <= 57)) {
+        NUMBER.lastIndex = pos;
+        const match = NUMBER.exec(text);
+        const atEnd = match ? pos + match[0].length >= text.length : text.length - pos < 2;
+        if (atEnd && fill()) continue;
+        if (!match) fail('Invalid number');
+        const raw = (match as RegExpExecArray)[0];
+        pos += raw.length;
+        startValue('number', Number(raw));
+      } else {
+        const literal = ch === 't' ? 'true' : ch === 'f' ? 'false' : ch === 'n' ? 'null' : undefined;
+        if (literal && text.length - pos < literal.length && fill()) continue;
+        if (!literal || !text.startsWith(literal, pos)) fail(`Unexpected "${ch}"`);
+        pos += (literal as string).length;
+        startValue('literal', LITERALS[literal as string]);
+      }
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// A JSONPath segment the streaming engine can evaluate without the whole document
+type StreamSegment =
+  | { type: 'key'; key: PathSegment }
+  | { type: 'token'; token: string }
+  | { type: 'wildcard' }
+  | { type: 'slice'; start: number; end: number; step: number }
+  | { type: 'filter'; operand: PathSegment[]; operator?: string; literal?: Primitive };
+
+const FILTER = /^\?\(?\s*@((?:\.[A-Za-z_$][A-Za-z0-9_$]*|\[[^\]]*\])*)\s*(?:(===|==|!==|!=|<=|>=|<|>)\s*(.+?))?\s*\)?$/;
+
+function parseLiteral(text: string): Primitive {
+  const quoted = text.match(/^'((?:\\.|[^'])*)'$/);
+  if (quoted) {
+    return quoted[1].replace(/\\(.)/g, '$1');
+  }
+  const value: unknown = JSON.parse(text);
+  if (typeof value === 'object' && value !== null) {
+    throw new Error(`Filter literals must be strings, numbers, booleans or null: ${text}`);
+  }
+  return value as Primitive;
+}
+
+function compileSegment(token: string): StreamSegment | null {
+  const concrete = decodeJSONPathSegment(token);
+  if (concrete !== null) {
+    return { type: 'key', key: concrete };
+  }
+  if (token === '.*' || token === '[*]') {
+    return { type: 'wildcard' };
+  }
+  if (!token.startsWith('[')) {
+    return null;
+  }
+
+  const inner = token.slice(1, -1).trim();
+  const slice = inner.match(/^(\d*)\s*:\s*(\d*)(?:\s*:\s*(\d*))?$/);
+  if (slice) {
+    const step = slice[3] ? Number(slice[3]) : 1;
+    return step > 0
+      ? { type: 'slice', start: slice[1] ? Number(slice[1]) : 0, end: slice[2] ? Number(slice[2]) : Infinity, step }
+      : null;
+  }
+
+  const filter = inner.match(FILTER);
+  if (filter) {
+    return {
+      type: 'filter',
+      operand: parseJSONPath(`$${filter[1]}`),
+      operator: filter[2],
+      literal: filter[3] === undefined ? undefined : parseLiteral(filter[3]),
+    };
+  }
+  return null;
+}
+
+// Compile a location into streaming segments, rejecting what needs the whole document
+function compileLocation(location: Location): StreamSegment[] {
+  if (typeof location !== 'string') {
+    return parseJSONPointer(location.pointer).map((token) => ({ type: 'token', token }));
+  }
+
+  const tokens = tokenizeJSONPath(location);
+  if (tokens[0] !== '$') {
+    throw new Error(`JSONPath must start with "$": ${location}`);
+  }
+  return tokens.slice(1).map((token) => {
+    const segment = compileSegment(token);
+    if (!segment) {
+      throw new Error(
+        `Streaming query does not support "${token}": use names, *, indices, slices with non-negative bounds and simple filters like [?(@.price > 10)], or pass stream: false`
+      );
+    }
+    return segment;
+  });
+}
+
+// Whether a child with the given key or index is selected by a segment
+// (filters are tested separately, once the child's value is known)
+function selects(segment: StreamSegment, key: PathSegment): boolean {
+  switch (segment.type) {
+    case 'key':
+      return segment.key === key;
+    case 'token':
+      return typeof key === 'number' ? /^(0|[1-9][0-9]*)$/.test(segment.token) && Number(segment.token) === key : segment.token === key;
+    case 'slice':
+      return typeof key === 'number' && key >= segment.start && key < segment.end && (key - segment.start) % segment.step === 0;
+    default:
+      return true;
+  }
+}
+
+function testFilter(segment: Extract<StreamSegment, { type: 'filter' }>, value: JsonValue): boolean {
+  let operand: JsonValue | undefined = value;
+  for (const key of segment.operand) {
+    if (Array.isArray(operand) && typeof key === 'number') operand = operand[key];
+    else if (isJsonObject(operand) && typeof key === 'string' && Object.prototype.hasOwnProperty.call(operand, key)) operand = operand[key];
+    else return false;
+  }
+  if (operand === undefined) return false;
+
+  const literal = segment.literal as Primitive;
+  switch (segment.operator) {
+    case undefined:
+      return Boolean(operand);
+    case '==':
+    case '===':
+      return operand === literal;
+    case '!=':
+    case '!==':
+      return operand !== literal;
+    default:
+      if (typeof operand !== typeof literal || (typeof operand !== 'number' && typeof operand !== 'string')) {
+        return false;
+      }
+      if (segment.operator === '<') return operand < (literal as number | string);
+      if (segment.operator === '<=') return operand <= (literal as number | string);
+      if (segment.operator === '>') return operand > (literal as number | string);
+      return operand >= (literal as number | string);
+  }
+}
+
+// Evaluate the remaining segments against a value already in memory
+function selectInMemory(value: JsonValue, segments: StreamSegment[], path: PathSegment[], emit: (path: PathSegment[], value: JsonValue) => void) {
+  if (segments.length === 0) {
+    emit(path, value);
+    return;
+  }
+  const [segment, ...rest] = segments;
+  const children: Array<[PathSegment, JsonValue]> = Array.isArray(value)
+    ? value.map((child, index) => [index, child])
+    : isJsonObject(value)
+      ? Object.entries(value)
+      : [];
+  for (const [key, child] of children) {
+    if (selects(segment, key) && (segment.type !== 'filter' || testFilter(segment, child))) {
+      selectInMemory(child, rest, [...path, key], emit);
+    }
+  }
+}
+
+function setChild(parent: JsonValue, key: PathSegment, value: JsonValue): void {
+  if (Array.isArray(parent)) {
+    parent.push(value);
+  } else if (key === '__proto__') {
+    Object.defineProperty(parent, key, { value, enumerable: true, writable: true, configurable: true });
+  } else {
+    (parent as Record<string, JsonValue>)[key] = value;
+  }
+}
+
+function toMatch(path: PathSegment[], value: JsonValue): JSONMatch {
+  return { path: formatJSONPath(path), pointer: formatJSONPointer(path), value };
+}
+
+// Query a JSON file without loading it: only the nodes that match (and the
+// elements a filter is tested on) are built in memory
+export function streamQuery(filePath: string, location: Location): JSONMatch[] {
+  const segments = compileLocation(location);
+  const isConcrete = segments.every((segment) => segment.type === 'key' || segment.type === 'token');
+  const results: JSONMatch[] = [];
+
+  // Depth of a subtree being skipped, or of a node being captured
+  let skipDepth = -1;
+  let capture: { depth: number; path: PathSegment[]; containers: JsonValue[]; root?: JsonValue } | null = null;
+
+  const finish = (path: PathSegment[], value: JsonValue): boolean => {
+    const segment = segments[path.length - 1];
+    if (path.length > 0 && segment.type === 'filter' && !testFilter(segment, value)) {
+      return false;
+    }
+    selectInMemory(value, segments.slice(path.length), path, (matchPath, matchValue) => results.push(toMatch(matchPath, matchValue)));
+    return isConcrete && results.length > 0;
+  };
+
+  // Decide what to do with a node that starts at `path`
+  const visit = (path: PathSegment[]): 'capture' | 'descend' | 'skip' => {
+    const depth = path.length;
+    if (depth > 0 && !selects(segments[depth - 1], path[depth - 1])) {
+      return 'skip';
+    }
+    return depth === segments.length || segments[depth - 1]?.type === 'filter' ? 'capture' : 'descend';
+  };
+
+  try {
+    scanJSONFile(filePath, {
+      open(path, isArray) {
+        const container: JsonValue = isArray ? [] : {};
+        if (capture) {
+          setChild(capture.containers[capture.containers.length - 1], path[path.length - 1], container);
+          capture.containers.push(container);
+        } else if (skipDepth === -1) {
+          const action = visit(path);
+          if (action === 'capture') {
+            capture = { depth: path.length, path: [...path], containers: [container], root: container };
+          } else if (action === 'skip') {
+            skipDepth = path.length;
+          }
+        }
+      },
+      close(path) {
+        if (capture) {
+          capture.containers.pop();
+          if (path.length === capture.depth) {
+            const { path: capturedPath, root } = capture;
+            capture = null;
+            return finish(capturedPath, root as JsonValue);
+          }
+        } else if (skipDepth === path.length) {
+          skipDepth = -1;
+        }
+      },
+      value(path, value) {
+        if (capture) {
+          setChild(capture.containers[capture.containers.length - 1], path[path.length - 1], value);
+        } else if (skipDepth === -1 && visit(path) === 'capture') {
+          return finish([...path], value);
+        }
+      },
+    });
+  } catch (error) {
+    throw new Error(`Failed to stream JSON file: ${error}`);
+  }
+  return results;
+}
+
+// Search a JSON file without loading it, with the same matching rules as
+// searchInJSON. Only values are searched.
+export function streamSearch(filePath: string, searchText: string, options: SearchOptions = {}): JSONMatch[] {
+  if (options.scope !== undefined && options.scope !== 'values') {
+    throw new Error('Searching keys is not supported when streaming');
+  }
+  const matches = createTextMatcher(searchText, options.mode, options.caseSensitive);
+  const results: JSONMatch[] = [];
+  try {
+    scanJSONFile(filePath, {
+      open() {},
+      close() {},
+      value(path, value) {
+        if (matchesScalar(value, matches, options.types)) {
+          results.push(toMatch([...path], value));
+        }
+      },
+    });
+  } catch (error) {
+    throw new Error(`Failed to stream JSON file: ${error}`);
+  }
+  return results;
+}
+
+// Decide whether to stream a file: when asked to, or by default for large
+// plain JSON files. Other formats are always loaded whole.
+export function shouldStream(filePath: string, format: DocumentFormat, stream: unknown): boolean {
+  if (stream !== undefined && typeof stream !== 'boolean') {
+    throw new Error('stream must be a boolean');
+  }
+  if (format !== 'json') {
+    if (stream === true) {
+      throw new Error(`Streaming is only supported for JSON files, not ${format.toUpperCase()}`);
+    }
+    return false;
+  }
+  if (stream !== undefined) {
+    return stream;
+  }
+  try {
+    return statSync(filePath).size >= STREAMING_THRESHOLD;
+  } catch {
+    return false;
+  }
+}
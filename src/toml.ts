@@ -0,0 +1,64 @@
+import { TomlDate, parse, stringify } from 'smol-toml';
+import { formatJSONPath } from './paths.js';
+import { JSONFormatting, JsonValue, JsonValueSchema, PathSegment, isJsonObject } from './types.js';
+
+// TOML dates and times have no JSON counterpart; they are read as strings
+function toJSONValue(value: unknown): unknown {
+  if (value instanceof TomlDate) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, toJSONValue(child)]));
+  }
+  return value;
+}
+
+// Parse TOML
+export function parseTOML(text: string): JsonValue {
+  return JsonValueSchema.parse(toJSONValue(parse(text)));
+}
+
+// Turn strings that still read as the original dates back into TOML dates,
+// so unchanged dates are not rewritten as quoted strings
+function restoreDates(original: unknown, value: JsonValue): unknown {
+  if (original instanceof TomlDate) {
+    return value === original.toISOString() ? original : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => restoreDates(Array.isArray(original) ? original[index] : undefined, item));
+  }
+  if (isJsonObject(value)) {
+    const source = typeof original === 'object' && original !== null ? (original as Record<string, unknown>) : {};
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, restoreDates(source[key], child)]));
+  }
+  return value;
+}
+
+function assertNoNull(value: JsonValue, segments: PathSegment[]): void {
+  if (value === null) {
+    throw new Error(`TOML cannot represent null (at ${formatJSONPath(segments)})`);
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => assertNoNull(item, [...segments, index]));
+  } else if (isJsonObject(value)) {
+    Object.entries(value).forEach(([key, child]) => assertNoNull(child, [...segments, key]));
+  }
+}
+
+// Serialize data as TOML. The document is rewritten as a whole, so comments
+// and the original table layout are not kept.
+export function serializeTOML(text: string, data: JsonValue, formatting: JSONFormatting): string {
+  if (!isJsonObject(data)) {
+    throw new Error('A TOML document must be a table at the top level');
+  }
+  assertNoNull(data, []);
+
+  let content = stringify(restoreDates(parse(text), data));
+  if (formatting.eol === '\r\n') {
+    content = content.replace(/\n/g, '\r\n');
+  }
+  return formatting.finalNewline ? content : content.replace(/\r?\n$/, '');
+}
@@ -1,10 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import {
   searchInJSON,
+  searchInSubtrees,
   queryByPath,
   appendToArrayAtPath,
   setAtPath,
   deleteAtPath,
+  insertIntoArrayAtPath,
+  moveAtPath,
+  copyAtPath,
+  queryMatches,
+  resolveLocation,
+  detectFormatting,
+  formatJSON,
+  parseIndent,
 } from './tools.js';
 import { JsonValue } from './types.js';
 import { JSONPath } from 'jsonpath-plus';
@@ -140,6 +149,63 @@ describe('JSON MCP Server Tools', () => {
       expect(results[0].value).toBe('simple string');
       expect(results[0].path).toBe('$');
     });
+
+    it('should search only inside the selected subtrees and report absolute paths', () => {
+      const data: JsonValue = {
+        services: [
+          { name: 'api', env: { DB_HOST: 'db.internal' } },
+          { name: 'db.internal', env: { PORT: '5432' } },
+        ],
+        hosts: ['db.internal'],
+      };
+
+      expect(searchInSubtrees(queryMatches(data, '$.services[*].env'), 'db.internal')).toEqual([
+        { path: '$.services[0].env.DB_HOST', pointer: '/services/0/env/DB_HOST', value: 'db.internal' },
+      ]);
+      // Overlapping subtrees report each match once
+      expect(searchInSubtrees(queryMatches(data, '$..env'), '5432')).toHaveLength(1);
+      expect(searchInSubtrees(queryMatches(data, '$.missing'), 'db')).toEqual([]);
+    });
+
+    it('should keep a key match and a value match on the same property', () => {
+      const data = { cfg: { timeout: 'timeout-x' } };
+      const options = { scope: 'both' as const };
+      expect(searchInJSON(data, 'timeout', '$', options)).toHaveLength(2);
+      expect(searchInSubtrees(queryMatches(data, '$.cfg'), 'timeout', options)).toEqual(searchInJSON(data, 'timeout', '$', options));
+    });
+
+    it('should match property names when scope includes keys', () => {
+      const data = { http: { timeout: 30, retries: 2 }, note: 'timeout applies per request' };
+
+      expect(searchInJSON(data, 'timeout', '$', { scope: 'keys' })).toEqual([
+        { path: '$.http.timeout', pointer: '/http/timeout', value: 30, matchedOn: 'key' },
+      ]);
+      expect(searchInJSON(data, 'timeout', '$', { scope: 'both' }).map((match) => match.matchedOn ?? 'value')).toEqual([
+        'key',
+        'value',
+      ]);
+    });
+
+    it('should support regex, exact, word and fuzzy modes', () => {
+      const data = { a: 'error: disk full', b: 'errors', c: 'Error', d: 'eror 42' };
+      const values = (options: Parameters<typeof searchInJSON>[3], text = 'error') =>
+        searchInJSON(data, text, '$', options).map((match) => match.value);
+
+      expect(values({ mode: 'exact' })).toEqual(['Error']);
+      expect(values({ mode: 'exact', caseSensitive: true })).toEqual([]);
+      expect(values({ mode: 'word' })).toEqual(['error: disk full', 'Error']);
+      expect(values({ mode: 'regex' }, '^err.*s$')).toEqual(['errors']);
+      expect(values({ mode: 'fuzzy' })).toEqual(['error: disk full', 'errors', 'Error', 'eror 42']);
+      expect(() => values({ mode: 'regex' }, '(')).toThrow(/Invalid regex/);
+    });
+
+    it('should restrict matches to the given value types', () => {
+      const data = { port: 8080, name: 'srv8080', enabled: true, owner: null };
+
+      expect(searchInJSON(data, '8080', '$', { types: ['number'] }).map((match) => match.path)).toEqual(['$.port']);
+      expect(searchInJSON(data, 'null').map((match) => match.path)).toEqual([]);
+      expect(searchInJSON(data, 'null', '$', { types: ['null'] }).map((match) => match.path)).toEqual(['$.owner']);
+    });
   });
 
   describe('query', () => {
@@ -259,6 +325,38 @@ describe('JSON MCP Server Tools', () => {
       expect(() => setAtPath(sampleData, '$.newRoot.level1.level2.key', 123)).toThrow();
     });
 
+    it('should create intermediate objects when createParents=true', () => {
+      const result = setAtPath({}, '$.settings.network.proxy.host', 'localhost', false, true);
+      expect(result).toEqual({ settings: { network: { proxy: { host: 'localhost' } } } });
+    });
+
+    it('should create arrays for index segments when createParents=true', () => {
+      const result = setAtPath({ servers: [] }, '$.servers[0].ports[0]', 8080, false, true);
+      expect(result).toEqual({ servers: [{ ports: [8080] }] });
+    });
+
+    it('should create parents along a JSON Pointer', () => {
+      const result = setAtPath({ a: {} }, { pointer: '/a/b~1c/-/d' }, true, false, true);
+      expect(result).toEqual({ a: { 'b/c': [{ d: true }] } });
+    });
+
+    it('should keep existing nodes when creating parents', () => {
+      const result = setAtPath(sampleData, '$.store.bicycle.lights.front', 'on', false, true);
+      expect(jsonPath(result, '$.store.bicycle.color')).toEqual(['red']);
+      expect(jsonPath(result, '$.store.bicycle.lights.front')).toEqual(['on']);
+    });
+
+    it('should refuse to create parents for non-concrete paths', () => {
+      expect(() => setAtPath({}, '$.items[*].name', 'x', false, true)).toThrow(/requires a concrete path/);
+      expect(() => setAtPath({}, '$..name', 'x', false, true)).toThrow(/requires a concrete path/);
+      expect(() => setAtPath({}, "$.items[?(@.id == 1)].name", 'x', false, true)).toThrow(/requires a concrete path/);
+    });
+
+    it('should refuse to create parents under primitives or past the end of arrays', () => {
+      expect(() => setAtPath({ a: 1 }, '$.a.b.c', 'x', false, true)).toThrow(/not an object or array/);
+      expect(() => setAtPath({ a: [] }, '$.a[2].b', 'x', false, true)).toThrow(/out of bounds/);
+    });
+
     it('should only set the first matched parent (no applyToAllMatches)', () => {
       const data = { items: [{ a: 1 }, { a: 2 }] };
       const result = setAtPath(data, '$.items[*].newKey', 'x');
@@ -289,4 +387,152 @@ describe('JSON MCP Server Tools', () => {
       expect(jsonPath(result, '$.store.book[0].category')).toEqual(['reference']);
     });
   });
+
+  describe('insertIntoArray', () => {
+    it('should insert at the given index', () => {
+      const result = insertIntoArrayAtPath({ items: [1, 3] }, '$.items', 1, 2);
+      expect(result).toEqual({ items: [1, 2, 3] });
+    });
+
+    it('should count negative indices from the end', () => {
+      const result = insertIntoArrayAtPath({ items: [1, 2] }, '$.items', -1, 3);
+      expect(result).toEqual({ items: [1, 2, 3] });
+    });
+
+    it('should throw when the index is out of bounds', () => {
+      expect(() => insertIntoArrayAtPath({ items: [1] }, '$.items', 5, 2)).toThrow(/out of bounds/);
+    });
+  });
+
+  describe('move and copy', () => {
+    it('should move a value to a new property', () => {
+      const result = moveAtPath(sampleData, '$.store.bicycle', '$.store.bike');
+      expect(jsonPath(result, '$.store.bicycle')).toEqual([]);
+      expect(jsonPath(result, '$.store.bike.color')).toEqual(['red']);
+    });
+
+    it('should copy a value and keep the source', () => {
+      const result = copyAtPath(sampleData, '$.store.book[0].author', '$.store.bicycle.owner');
+      expect(jsonPath(result, '$.store.bicycle.owner')).toEqual(['Nigel Rees']);
+      expect(jsonPath(result, '$.store.book[0].author')).toEqual(['Nigel Rees']);
+    });
+
+    it('should require the source to match exactly one node', () => {
+      expect(() => copyAtPath(sampleData, '$.store.book[*].author', '$.authors')).toThrow(/exactly one node/);
+      expect(() => moveAtPath(sampleData, '$.missing', '$.other')).toThrow(/Source path not found/);
+    });
+
+    it('should refuse to move a node into itself', () => {
+      expect(() => moveAtPath(sampleData, '$.store', '$.store.nested')).toThrow(/own children/);
+    });
+
+    it('should move elements within an array without losing any', () => {
+      const data = { a: [1, 2, 3] };
+      expect(moveAtPath(data, '$.a[0]', '$.a[0]')).toEqual({ a: [1, 2, 3] });
+      expect(moveAtPath(data, { pointer: '/a/0' }, { pointer: '/a/0' })).toEqual({ a: [1, 2, 3] });
+      expect(moveAtPath(data, "$['a'][1]", '$.a[1]')).toEqual({ a: [1, 2, 3] });
+      expect(moveAtPath(data, '$.a[2]', '$.a[0]')).toEqual({ a: [3, 1, 2] });
+      expect(moveAtPath(data, '$.a[0]', '$.a[1]')).toEqual({ a: [2, 1, 3] });
+      expect(moveAtPath(data, '$.a[0]', '$.a[2]')).toEqual({ a: [2, 3, 1] });
+      expect(moveAtPath(data, { pointer: '/a/0' }, { pointer: '/a/-' })).toEqual({ a: [2, 3, 1] });
+      expect(() => moveAtPath(data, '$.a[0]', '$.a[3]')).toThrow(/out of bounds/);
+    });
+
+    it('should insert into another array instead of overwriting', () => {
+      expect(moveAtPath({ a: [1], b: [2, 3] }, '$.a[0]', '$.b[0]')).toEqual({ a: [], b: [1, 2, 3] });
+    });
+  });
+
+  describe('__proto__ keys', () => {
+    it('should refuse to create them rather than replace a prototype', () => {
+      expect(() => setAtPath({}, '$.__proto__.x', 'h', false, true)).toThrow(/property named "__proto__"/);
+      expect(() => setAtPath({ a: {} }, "$.a['__proto__']", 'h')).toThrow(/property named "__proto__"/);
+      expect(() => setAtPath({}, { pointer: '/__proto__' }, { x: 1 })).toThrow(/property named "__proto__"/);
+    });
+  });
+
+  describe('reported paths', () => {
+    it('should find, set and delete what search reports, whatever the key', () => {
+      const data = { "it's": 'hit', 'x\\y': 'hit', 'a.b': 'hit', 'c/d': 'hit', nested: { "q'\\./": ['hit'] } };
+      const matches = searchInJSON(data, 'hit');
+      expect(matches).toHaveLength(5);
+      for (const match of matches) {
+        expect(queryByPath(data, match.path)).toEqual(['hit']);
+        expect(queryMatches(data, match.path)).toEqual([match]);
+        expect(queryByPath(setAtPath(data, match.path, 'set'), match.path)).toEqual(['set']);
+        expect(queryByPath(deleteAtPath(data, match.path), match.path)).toEqual([]);
+      }
+      expect(deleteAtPath({ "it's": 1 }, "$['it\\'s']")).toEqual({});
+    });
+  });
+
+  describe('JSON Pointer locations', () => {
+    const data = { 'a.b': { "it's": [1, 2] }, 'x/y': { '~z': true } };
+
+    it('should query by pointer and return both path and pointer', () => {
+      expect(queryMatches(data, { pointer: "/a.b/it's/1" })).toEqual([
+        { path: "$['a.b']['it\\'s'][1]", pointer: "/a.b/it's/1", value: 2 },
+      ]);
+      expect(queryMatches(data, { pointer: '/x~1y/~0z' })).toEqual([
+        { path: "$['x/y']['~z']", pointer: '/x~1y/~0z', value: true },
+      ]);
+      expect(queryMatches(data, { pointer: '/missing' })).toEqual([]);
+    });
+
+    it('should return pointers for JSONPath matches', () => {
+      expect(queryMatches(sampleData, '$.store.book[?(@.price > 10)].title')).toEqual([
+        { path: '$.store.book[1].title', pointer: '/store/book/1/title', value: 'Sword of Honour' },
+      ]);
+    });
+
+    it('should set, append and delete by pointer', () => {
+      let result = setAtPath(data, { pointer: '/x~1y/~0z' }, false);
+      expect(queryByPath(result, { pointer: '/x~1y/~0z' })).toEqual([false]);
+
+      result = setAtPath(result, { pointer: '/x~1y/new key' }, 1);
+      expect(queryByPath(result, { pointer: '/x~1y/new key' })).toEqual([1]);
+
+      result = appendToArrayAtPath(result, { pointer: "/a.b/it's" }, 3);
+      expect(queryByPath(result, { pointer: "/a.b/it's" })).toEqual([[1, 2, 3]]);
+
+      result = setAtPath(result, { pointer: "/a.b/it's/-" }, 4);
+      expect(queryByPath(result, { pointer: "/a.b/it's" })).toEqual([[1, 2, 3, 4]]);
+
+      result = deleteAtPath(result, { pointer: "/a.b/it's/0" });
+      expect(queryByPath(result, { pointer: "/a.b/it's" })).toEqual([[2, 3, 4]]);
+    });
+
+    it('should create properties with quoted keys from JSONPath', () => {
+      const result = setAtPath(data, "$['a.b']['new.key']", 'v');
+      expect(queryByPath(result, { pointer: '/a.b/new.key' })).toEqual(['v']);
+    });
+
+    it('should require exactly one of path or pointer', () => {
+      expect(resolveLocation('$.a', undefined)).toBe('$.a');
+      expect(resolveLocation(undefined, '/a')).toEqual({ pointer: '/a' });
+      expect(() => resolveLocation('$.a', '/a')).toThrow(/either path or pointer/);
+      expect(() => resolveLocation(undefined, undefined)).toThrow('Missing required parameter: path (or pointer)');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should detect indentation, line endings and final newline', () => {
+      expect(detectFormatting('{\n  "a": 1\n}')).toEqual({ indent: 2, eol: '\n', finalNewline: false });
+      expect(detectFormatting('{\r\n    "a": 1\r\n}\r\n')).toEqual({ indent: 4, eol: '\r\n', finalNewline: true });
+      expect(detectFormatting('{\n\t"a": [\n\t\t1\n\t]\n}\n')).toEqual({ indent: '\t', eol: '\n', finalNewline: true });
+      expect(detectFormatting('{"a":1}\n')).toEqual({ indent: 0, eol: '\n', finalNewline: true });
+    });
+
+    it('should reproduce the detected layout', () => {
+      const content = '{\r\n\t"a": [\r\n\t\t1,\r\n\t\t2\r\n\t]\r\n}\r\n';
+      expect(formatJSON(JSON.parse(content), detectFormatting(content))).toBe(content);
+    });
+
+    it('should validate indent overrides', () => {
+      expect(parseIndent(4)).toBe(4);
+      expect(parseIndent('\t')).toBe('\t');
+      expect(() => parseIndent(-1)).toThrow(/indent must be/);
+      expect(() => parseIndent('x')).toThrow(/indent must be/);
+    });
+  });
 });
@@ -1,90 +1,214 @@
 import { JSONPath } from 'jsonpath-plus';
-import { readFileSync, writeFileSync } from 'fs';
-import { JsonValue, JsonValueSchema } from './types.js';
+import {
+  decodeJSONPathSegment,
+  formatJSONPath,
+  formatJSONPointer,
+  parseJSONPath,
+  parseJSONPointer,
+  tokenizeJSONPath,
+} from './paths.js';
+import { createTextMatcher, matchesScalar, matchesType } from './matcher.js';
+import { findAtPointer, pointerToSegments } from './pointer.js';
+import {
+  JSONFormatting,
+  JSONMatch,
+  JSONPathResult,
+  JsonValue,
+  JsonValueSchema,
+  Location,
+  PathSegment,
+  SearchOptions,
+  isJsonObject,
+} from './types.js';
 
-// Helper function to read JSON from file
-export function readJSONFile(filePath: string): JsonValue {
-  try {
-    const content = readFileSync(filePath, 'utf-8');
-    const parsed: unknown = JSON.parse(content);
-    return JsonValueSchema.parse(parsed);
-  } catch (error) {
-    throw new Error(`Failed to read or parse JSON file: ${error}`);
+// Detect how a JSON text is laid out: indentation unit (0 for single-line
+// output), line endings and whether it ends with a newline.
+export function detectFormatting(content: string): JSONFormatting {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const finalNewline = /\n$/.test(content);
+  const indentedLine = content.match(/^([ \t]+)\S/m);
+
+  let indent: string | number = 0;
+  if (content.trim().includes('\n')) {
+    indent = indentedLine ? (indentedLine[1].startsWith('\t') ? '\t' : indentedLine[1].length) : 2;
   }
+
+  return { indent, eol, finalNewline };
 }
 
-// Helper function to write JSON to file
-export function writeJSONFile(filePath: string, data: JsonValue): void {
-  try {
-    const content = JSON.stringify(data, null, 2);
-    writeFileSync(filePath, content, 'utf-8');
-  } catch (error) {
-    throw new Error(`Failed to write JSON file: ${error}`);
+// Serialize JSON with the given layout
+export function formatJSON(data: JsonValue, formatting: JSONFormatting): string {
+  let content = JSON.stringify(data, null, formatting.indent);
+  if (formatting.eol === '\r\n') {
+    content = content.replace(/\n/g, '\r\n');
+  }
+  return formatting.finalNewline ? content + formatting.eol : content;
+}
+
+// Validate a caller-supplied indent: a number of spaces (0 for single-line) or a whitespace string
+export function parseIndent(indent: unknown): string | number {
+  if (typeof indent === 'number' && Number.isInteger(indent) && indent >= 0 && indent <= 10) {
+    return indent;
   }
+  if (typeof indent === 'string' && /^[ \t]{1,10}$/.test(indent)) {
+    return indent;
+  }
+  throw new Error('indent must be a number of spaces (0-10) or a string of up to 10 spaces/tabs');
 }
 
-// Helper function to search text in JSON
+// Helper function to search text in JSON. Values are searched by default;
+// `options.scope` also (or only) checks property names, reported with matchedOn: 'key'.
 export function searchInJSON(
   data: JsonValue,
   searchText: string,
-  currentPath: string = '$'
-): Array<{ path: string; value: JsonValue }> {
-  const results: Array<{ path: string; value: JsonValue }> = [];
-  const lowerSearchText = searchText.toLowerCase();
+  currentPath: string = '$',
+  options: SearchOptions = {}
+): JSONMatch[] {
+  const results: JSONMatch[] = [];
+  const matches = createTextMatcher(searchText, options.mode, options.caseSensitive);
+  const searchValues = options.scope !== 'keys';
+  const searchKeys = options.scope === 'keys' || options.scope === 'both';
 
-  function search(obj: JsonValue, path: string) {
-    if (obj === null || obj === undefined) {
+  function addResult(segments: PathSegment[], value: JsonValue, matchedOn?: 'key') {
+    const match: JSONMatch = { path: formatJSONPath(segments), pointer: formatJSONPointer(segments), value };
+    results.push(matchedOn ? { ...match, matchedOn } : match);
+  }
+
+  function search(obj: JsonValue, path: PathSegment[]) {
+    if (obj === undefined) {
       return;
     }
 
-    // For primitive values (string, number, boolean), check if they match
-    if (typeof obj === 'string') {
-      if (obj.toLowerCase().includes(lowerSearchText)) {
-        results.push({ path, value: obj });
-      }
-    } else if (typeof obj === 'number' || typeof obj === 'boolean') {
-      // Convert to string to check if the search text matches
-      if (String(obj).toLowerCase().includes(lowerSearchText)) {
-        results.push({ path, value: obj });
+    // For primitive values (string, number, boolean, null), check if they match
+    if (obj === null || typeof obj !== 'object') {
+      if (searchValues && matchesScalar(obj, matches, options.types)) {
+        addResult(path, obj);
       }
-    } else if (typeof obj === 'object' && obj !== null) {
+    } else {
       // For objects and arrays, recursively search children
       // Do NOT check the stringified object itself
       if (Array.isArray(obj)) {
         obj.forEach((item, index) => {
-          search(item, `${path}[${index}]`);
+          search(item, [...path, index]);
         });
       } else {
         Object.keys(obj).forEach((key) => {
-          search((obj)[key], `${path}.${key}`);
+          if (searchKeys && matchesType(obj[key], options.types) && matches(key)) {
+            addResult([...path, key], obj[key], 'key');
+          }
+          search(obj[key], [...path, key]);
         });
       }
     }
   }
 
-  search(data, currentPath);
+  search(data, parseJSONPath(currentPath));
   return results;
 }
 
-// Helper function to get value at JSONPath
-export function queryByPath(data: JsonValue, path: string): JsonValue[] {
+// Search only inside the given subtrees (as returned by queryMatches), reporting
+// absolute paths. Matches inside overlapping subtrees are reported once; a key
+// and a value match on the same property are two matches.
+export function searchInSubtrees(subtrees: JSONMatch[], searchText: string, options: SearchOptions = {}): JSONMatch[] {
+  const seen = new Set<string>();
+  return subtrees
+    .flatMap((subtree) => searchInJSON(subtree.value, searchText, subtree.path, options))
+    .filter((match) => {
+      const key = `${match.matchedOn ?? 'value'}:${match.pointer}`;
+      return !seen.has(key) && seen.add(key);
+    });
+}
+
+// Pick the JSONPath or JSON Pointer form of a location; exactly one must be given
+export function resolveLocation(
+  path: string | undefined,
+  pointer: string | undefined,
+  pathName = 'path',
+  pointerName = 'pointer'
+): Location {
+  if (path !== undefined && pointer !== undefined) {
+    throw new Error(`Specify either ${pathName} or ${pointerName}, not both`);
+  }
+  if (pointer !== undefined) {
+    return { pointer };
+  }
+  if (path === undefined) {
+    throw new Error(`Missing required parameter: ${pathName} (or ${pointerName})`);
+  }
+  return path;
+}
+
+// The JSON Pointer of a location naming exactly one place, or undefined for
+// JSONPath expressions with wildcards, filters and the like
+function concretePointer(location: Location): string | undefined {
+  if (typeof location !== 'string') {
+    return location.pointer;
+  }
   try {
-    return JSONPath({ path, json: data, wrap: true }) as JsonValue[];
+    return formatJSONPointer(parseJSONPath(location));
+  } catch {
+    return undefined;
+  }
+}
+
+// Resolve concrete JSONPaths through their pointer: jsonpath-plus does not
+// understand the escaped quotes and backslashes of the paths we report
+function normalizeLocation(location: Location): Location {
+  const pointer = typeof location === 'string' ? concretePointer(location) : undefined;
+  return pointer === undefined ? location : { pointer };
+}
+
+// Resolve a JSONPath expression or JSON Pointer to matching nodes with their parents
+function findMatches(data: JsonValue, location: Location): JSONPathResult[] {
+  const resolved = normalizeLocation(location);
+  if (typeof resolved !== 'string') {
+    const match = findAtPointer(data, resolved.pointer);
+    return match ? [match] : [];
+  }
+  return JSONPath({ path: resolved, json: data, resultType: 'all' }) as JSONPathResult[];
+}
+
+// Helper function to get value at JSONPath (or JSON Pointer)
+export function queryByPath(data: JsonValue, location: Location): JsonValue[] {
+  const resolved = normalizeLocation(location);
+  if (typeof resolved !== 'string') {
+    return findMatches(data, resolved).map((match) => match.value);
+  }
+  try {
+    return JSONPath({ path: resolved, json: data, wrap: true }) as JsonValue[];
   } catch (error) {
     throw new Error(`Invalid JSONPath: ${error}`);
   }
 }
 
+// Like queryByPath, but report each match with its normalized JSONPath and JSON Pointer
+export function queryMatches(data: JsonValue, location: Location): JSONMatch[] {
+  let pointers: string[];
+  const resolved = normalizeLocation(location);
+  if (typeof resolved !== 'string') {
+    pointers = findAtPointer(data, resolved.pointer) ? [resolved.pointer] : [];
+  } else {
+    try {
+      const results = JSONPath({ path: resolved, json: data, resultType: 'all' }) as Array<{ pointer: string }>;
+      pointers = results.map((result) => result.pointer);
+    } catch (error) {
+      throw new Error(`Invalid JSONPath: ${error}`);
+    }
+  }
+
+  return pointers.map((pointer) => {
+    const segments = pointerToSegments(data, pointer);
+    const match = findAtPointer(data, pointer) as JSONPathResult;
+    return { path: formatJSONPath(segments), pointer: formatJSONPointer(segments), value: match.value };
+  });
+}
+
 // Append to arrays only: path must select array node(s). Throws otherwise.
-export function appendToArrayAtPath(data: JsonValue, path: string, newValue: JsonValue): JsonValue {
+export function appendToArrayAtPath(data: JsonValue, path: Location, newValue: JsonValue): JsonValue {
   const clonedData = JsonValueSchema.parse(JSON.parse(JSON.stringify(data)));
 
   try {
-    const results = JSONPath({
-      path,
-      json: clonedData,
-      resultType: 'all',
-    }) as Array<{ value: JsonValue }>;
+    const results = findMatches(clonedData, path);
 
     results.forEach((result) => {
       const node = result.value;
@@ -100,20 +224,198 @@ export function appendToArrayAtPath(data: JsonValue, path: string, newValue: Jso
   }
 }
 
+// Insert into arrays at a given index: path must select array node(s). Negative
+// indices count from the end; an index equal to the length appends.
+export function insertIntoArrayAtPath(data: JsonValue, path: Location, index: number, newValue: JsonValue): JsonValue {
+  const clonedData = JsonValueSchema.parse(JSON.parse(JSON.stringify(data)));
+
+  try {
+    const results = findMatches(clonedData, path);
+
+    if (results.length === 0) {
+      throw new Error('Path not found');
+    }
+
+    results.forEach((result) => {
+      const node = result.value;
+      if (!Array.isArray(node)) {
+        throw new Error('Path must point to array(s) to insert into');
+      }
+      const position = index < 0 ? node.length + index + 1 : index;
+      if (!Number.isInteger(position) || position < 0 || position > node.length) {
+        throw new Error(`Index ${index} is out of bounds for array of length ${node.length}`);
+      }
+      node.splice(position, 0, newValue);
+    });
+
+    return clonedData;
+  } catch (error) {
+    throw new Error(`Failed to insert into array at path: ${error}`);
+  }
+}
+
+// Resolve a location that must select exactly one node and return its value
+function getSingleValue(data: JsonValue, path: Location): JsonValue {
+  const matches = queryByPath(data, path);
+  if (matches.length === 0) {
+    throw new Error('Source path not found');
+  }
+  if (matches.length > 1) {
+    throw new Error(`Source path must match exactly one node, but matched ${matches.length}`);
+  }
+  return matches[0];
+}
+
+// Copy the single node at `from` to `to` using set (upsert) semantics
+export function copyAtPath(data: JsonValue, from: Location, to: Location): JsonValue {
+  try {
+    const value = getSingleValue(data, from);
+    return setAtPath(data, to, value);
+  } catch (error) {
+    throw new Error(`Failed to copy: ${error}`);
+  }
+}
+
+// Move the single node at `from` to `to` as RFC 6902 move does: the source is
+// removed first, so array indices in `to` refer to the document after removal,
+// and a value moved into an array is inserted before the element at its index
+// (or appended for "-") rather than replacing it. Moving a node onto itself
+// changes nothing.
+export function moveAtPath(data: JsonValue, from: Location, to: Location): JsonValue {
+  try {
+    const sources = queryMatches(data, from);
+    if (sources.length === 0) {
+      throw new Error('Source path not found');
+    }
+    if (sources.length > 1) {
+      throw new Error(`Source path must match exactly one node, but matched ${sources.length}`);
+    }
+    const [source] = sources;
+    const target = concretePointer(to);
+    if (target === source.pointer) {
+      return data;
+    }
+    const intoChild =
+      target !== undefined
+        ? target.startsWith(`${source.pointer}/`)
+        : typeof from === 'string' && typeof to === 'string' && (to.startsWith(`${from}.`) || to.startsWith(`${from}[`));
+    if (intoChild) {
+      throw new Error('Cannot move a node into one of its own children');
+    }
+
+    const removed = deleteAtPath(data, { pointer: source.pointer });
+    const { parentPath, key } = target === undefined ? { parentPath: undefined, key: undefined } : splitParentAndKey(to);
+    const parent = parentPath === undefined ? undefined : findMatches(removed, parentPath)[0]?.value;
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`Index ${key} is out of bounds for array of length ${parent.length}`);
+      }
+      return insertIntoArrayAtPath(removed, parentPath as Location, index, source.value);
+    }
+    return setAtPath(removed, to, source.value);
+  } catch (error) {
+    throw new Error(`Failed to move: ${error}`);
+  }
+}
+
+// Split a location into its parent and final key, for creating missing nodes
+function splitParentAndKey(location: Location): { parentPath: Location; key: PathSegment } {
+  if (typeof location !== 'string') {
+    const separator = location.pointer.lastIndexOf('/');
+    if (separator < 0) {
+      throw new Error('Cannot create the document root');
+    }
+    const token = location.pointer.slice(separator + 1).replace(/~1/g, '/').replace(/~0/g, '~');
+    return { parentPath: { pointer: location.pointer.slice(0, separator) }, key: token };
+  }
+
+  const tokens = tokenizeJSONPath(location);
+  const last = tokens.pop();
+  const key = last === undefined ? null : decodeJSONPathSegment(last);
+  if (key === null || tokens.length === 0 || tokens[tokens.length - 1] === '..') {
+    throw new Error('set supports only JSONPath expressions with a final property segment');
+  }
+  return { parentPath: tokens.join(''), key };
+}
+
+// The property name for a segment. "__proto__" would replace the object's
+// prototype instead of adding a key, and parsed documents drop it, so it is refused.
+function propertyName(segment: PathSegment): string {
+  const key = String(segment);
+  if (key === '__proto__') {
+    throw new Error('Cannot create a property named "__proto__"');
+  }
+  return key;
+}
+
+// Create the missing containers along a concrete location, up to (not including)
+// its final segment, and return the parent node with the final key. A missing node
+// becomes an array when the segment after it is an index ("[0]" in JSONPath, a
+// number or "-" in a pointer) and an object otherwise.
+function createParents(data: JsonValue, location: Location): { parent: JsonValue; key: PathSegment } {
+  let segments: PathSegment[];
+  try {
+    segments =
+      typeof location === 'string'
+        ? parseJSONPath(location)
+        : parseJSONPointer(location.pointer).map((token) => (/^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : token));
+  } catch (error) {
+    throw new Error(`createParents requires a concrete path: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let node = data;
+  segments.slice(0, -1).forEach((segment, i) => {
+    const next = segments[i + 1];
+    const created: JsonValue = typeof next === 'number' || next === '-' ? [] : {};
+
+    if (Array.isArray(node)) {
+      const index = segment === '-' ? node.length : Number(segment);
+      if (!Number.isInteger(index)) {
+        throw new Error(`Cannot use key "${segment}" on an array at ${formatJSONPath(segments.slice(0, i))}`);
+      }
+      if (index === node.length) {
+        node.push(created);
+      } else if (index > node.length) {
+        throw new Error(`Index ${index} is out of bounds for array of length ${node.length} at ${formatJSONPath(segments.slice(0, i))}`);
+      }
+      node = node[index];
+    } else if (isJsonObject(node)) {
+      const key = propertyName(segment);
+      if (!Object.prototype.hasOwnProperty.call(node, key)) {
+        node[key] = created;
+      }
+      node = node[key];
+    } else {
+      throw new Error(`Cannot create children under ${formatJSONPath(segments.slice(0, i))}: not an object or array`);
+    }
+  });
+
+  if (segments.length === 0) {
+    throw new Error('Cannot create the document root');
+  }
+  return { parent: node, key: segments[segments.length - 1] };
+}
+
 // Set (upsert) value at JSONPath.
 // Behavior:
 // - If path matches existing nodes, replace the first match (or all matches if all=true).
-// - If nothing matches, attempt to create the property on an existing parent node
-//   (no intermediate creation). If parent not found, throw.
-export function setAtPath(data: JsonValue, path: string, value: JsonValue, all = false): JsonValue {
+// - If nothing matches, attempt to create the property on an existing parent node.
+//   Missing intermediate objects/arrays are only created when createParents=true,
+//   which requires a concrete path; otherwise, if the parent is not found, throw.
+//   An array parent can only grow by one element at its end (index == length,
+//   or "-" for pointers).
+export function setAtPath(
+  data: JsonValue,
+  path: Location,
+  value: JsonValue,
+  all = false,
+  createMissingParents = false
+): JsonValue {
   const clonedData = JsonValueSchema.parse(JSON.parse(JSON.stringify(data)));
 
   try {
-    const results = JSONPath({ path, json: clonedData, resultType: 'all' }) as Array<{
-      value: JsonValue;
-      parent: JsonValue;
-      parentProperty: string | number;
-    }>;
+    const results = findMatches(clonedData, path);
 
     if (results.length > 0) {
       // If all=true, update all matches; otherwise just the first
@@ -134,45 +436,30 @@ export function setAtPath(data: JsonValue, path: string, value: JsonValue, all =
       return clonedData;
     }
 
-    // No matches: attempt safe creation. Support simple JSONPath ending with a property.
-    function splitParentAndKey(p: string): { parentPath: string; keyExpr: string } | null {
-      let depth = 0;
-      let inSingle = false;
-      let inDouble = false;
-      for (let i = p.length - 1; i >= 0; i--) {
-        const ch = p[i];
-        if (ch === ']' && !inSingle && !inDouble) depth++;
-        else if (ch === '[' && !inSingle && !inDouble) depth--;
-        else if (ch === "'" && !inDouble) inSingle = !inSingle;
-        else if (ch === '"' && !inSingle) inDouble = !inDouble;
-
-        if (ch === '.' && depth === 0 && !inSingle && !inDouble) {
-          return { parentPath: p.slice(0, i), keyExpr: p.slice(i + 1) };
-        }
+    // No matches: attempt safe creation on the parent of the final segment
+    let parent: JsonValue;
+    let key: PathSegment;
+    if (createMissingParents) {
+      ({ parent, key } = createParents(clonedData, path));
+    } else {
+      const split = splitParentAndKey(path);
+      const parents = findMatches(clonedData, split.parentPath);
+      if (parents.length === 0) {
+        throw new Error('Parent path not found');
       }
-      return null;
-    }
-
-    const split = splitParentAndKey(path);
-    if (!split) {
-      throw new Error('set supports only JSONPath expressions with a final property segment');
-    }
-
-    const parentPath = split.parentPath || '$';
-    const keyExpr = split.keyExpr;
-    const bracketMatch = keyExpr.match(/^\[['\"]?([A-Za-z0-9_]+)['\"]?\]$/);
-    const key = bracketMatch ? bracketMatch[1] : keyExpr.replace(/^\./, '');
 
-    // Find parent nodes using JSONPath
-    const parents = JSONPath({ path: parentPath, json: clonedData, wrap: true }) as JsonValue[];
-    if (parents.length === 0) {
-      throw new Error('Parent path not found');
+      // Only set on the first matched parent
+      parent = parents[0].value;
+      key = split.key;
     }
 
-    // Only set on the first matched parent
-    const parent = parents[0];
-    if (typeof parent === 'object' && parent !== null && !Array.isArray(parent)) {
-      (parent as Record<string, JsonValue>)[key] = value;
+    if (isJsonObject(parent)) {
+      parent[propertyName(key)] = value;
+    } else if (Array.isArray(parent)) {
+      if (key !== '-' && String(key) !== String(parent.length)) {
+        throw new Error(`Index ${key} is out of bounds for array of length ${parent.length}`);
+      }
+      parent.push(value);
     } else {
       throw new Error('Parent must be an object to set a property');
     }
@@ -183,16 +470,12 @@ export function setAtPath(data: JsonValue, path: string, value: JsonValue, all =
   }
 }
 
-// Helper function to delete value at JSONPath
-export function deleteAtPath(data: JsonValue, path: string): JsonValue {
+// Helper function to delete value at JSONPath (or JSON Pointer)
+export function deleteAtPath(data: JsonValue, path: Location): JsonValue {
   const clonedData = JsonValueSchema.parse(JSON.parse(JSON.stringify(data)));
 
   try {
-    const results = JSONPath({
-      path,
-      json: clonedData,
-      resultType: 'all',
-    }) as Array<{ value: JsonValue; parent: JsonValue; parentProperty: string | number }>;
+    const results = findMatches(clonedData, path);
 
     // Process in reverse order to maintain correct indices when deleting from arrays
     results.reverse().forEach((result) => {
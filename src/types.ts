@@ -23,9 +23,143 @@ const jsonValueSchema: z.ZodType<JsonValue> = z.lazy(() =>
 
 export const JsonValueSchema = jsonValueSchema;
 
+// Type guard for JSON objects (excludes arrays and null)
+export function isJsonObject(value: JsonValue): value is { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 // JSONPath result type from jsonpath-plus
 export interface JSONPathResult {
   value: JsonValue;
   parent: JsonValue | null;
   parentProperty: string | number | undefined;
 }
+
+// Text formats the server can read and write
+export const DOCUMENT_FORMATS = ['json', 'jsonc', 'yaml', 'toml', 'jsonl'] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+// A parsed file together with the text it was read from
+export interface JSONDocument {
+  filePath: string;
+  format: DocumentFormat;
+  text: string;
+  data: JsonValue;
+}
+
+// Layout of a serialized JSON document
+export interface JSONFormatting {
+  indent: string | number;
+  eol: '\n' | '\r\n';
+  finalNewline: boolean;
+}
+
+// A single step in a JSON location: object key or array index
+export type PathSegment = string | number;
+
+// Where a tool operates: a JSONPath expression, or an RFC 6901 JSON Pointer
+export type Location = string | { pointer: string };
+
+// A matched node, addressable by both JSONPath and JSON Pointer
+export interface JSONMatch {
+  path: string;
+  pointer: string;
+  value: JsonValue;
+  // 1-based line of the record the match is in, for JSON Lines files
+  line?: number;
+  // Set for search matches on a property name rather than a value
+  matchedOn?: 'key';
+}
+
+// How search compares text, where it looks and which value types it reports
+export const SEARCH_MODES = ['substring', 'regex', 'exact', 'word', 'fuzzy'] as const;
+export type SearchMode = (typeof SEARCH_MODES)[number];
+export const SEARCH_SCOPES = ['values', 'keys', 'both'] as const;
+export type SearchScope = (typeof SEARCH_SCOPES)[number];
+export const SEARCH_TYPES = ['string', 'number', 'boolean', 'null', 'object', 'array'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchOptions {
+  mode?: SearchMode;
+  caseSensitive?: boolean;
+  scope?: SearchScope;
+  types?: SearchType[];
+}
+
+// What query reports for each match, named after jsonpath-plus result types:
+// all (path, pointer and value), only the value, path or pointer, or the
+// object or array that contains the match
+export const RESULT_TYPES = ['all', 'value', 'path', 'pointer', 'parent'] as const;
+export type ResultType = (typeof RESULT_TYPES)[number];
+
+// What describe returns: a structural summary or a draft 2020-12 JSON Schema
+export const DESCRIBE_OUTPUTS = ['summary', 'schema'] as const;
+export type DescribeOutput = (typeof DESCRIBE_OUTPUTS)[number];
+
+// Statistics the aggregate tool can compute over a selection
+export const AGGREGATE_OPERATIONS = ['count', 'sum', 'avg', 'min', 'max', 'distinct', 'histogram'] as const;
+export type AggregateOperation = (typeof AGGREGATE_OPERATIONS)[number];
+
+// Sub-paths picked out of each query match, by output name
+export type Projection = Record<string, string>;
+
+// A search match with a description of its surroundings
+export interface SearchMatch extends JSONMatch {
+  parentPath?: string;
+  // Other keys of the parent object (the first 20; moreSiblingKeys counts the rest)
+  siblingKeys?: string[];
+  moreSiblingKeys?: number;
+  // The enclosing object or array, trimmed to contextDepth levels
+  context?: JsonValue;
+}
+
+// One node-level difference between two JSON documents
+export interface DiffEntry {
+  type: 'added' | 'removed' | 'changed';
+  path: string;
+  pointer: string;
+  before?: JsonValue;
+  after?: JsonValue;
+}
+
+// Operations accepted by the multi-step patch tool. Each location is given either
+// as a JSONPath (`path`, `from`) or as a JSON Pointer (`pointer`, `fromPointer`).
+const target = { path: z.string().optional(), pointer: z.string().optional() };
+const source = { from: z.string().optional(), fromPointer: z.string().optional() };
+
+export const PatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('set'),
+    ...target,
+    value: jsonValueSchema,
+    all: z.boolean().optional(),
+    createParents: z.boolean().optional(),
+  }),
+  z.object({ op: z.literal('delete'), ...target }),
+  z.object({ op: z.literal('append'), ...target, value: jsonValueSchema }),
+  z.object({ op: z.literal('insert'), ...target, index: z.number().int(), value: jsonValueSchema }),
+  z.object({ op: z.literal('move'), ...source, ...target }),
+  z.object({ op: z.literal('copy'), ...source, ...target }),
+]);
+
+export type PatchOperation = z.infer<typeof PatchOperationSchema>;
+
+// A difference located by raw path segments, before formatting
+export interface StructuralChange {
+  type: DiffEntry['type'];
+  segments: PathSegment[];
+  before?: JsonValue;
+  after?: JsonValue;
+}
+
+// RFC 6902 JSON Patch operations
+export const JSONPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: z.string(), value: jsonValueSchema }),
+  z.object({ op: z.literal('remove'), path: z.string() }),
+  z.object({ op: z.literal('replace'), path: z.string(), value: jsonValueSchema }),
+  z.object({ op: z.literal('move'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('copy'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('test'), path: z.string(), value: jsonValueSchema }),
+]);
+
+export type JSONPatchOperation = z.infer<typeof JSONPatchOperationSchema>;
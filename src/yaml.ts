@@ -0,0 +1,111 @@
+import { Document, isSeq, parseAllDocuments } from 'yaml';
+import { diffSegments } from './diff.js';
+import { JSONFormatting, JsonValue, JsonValueSchema, PathSegment, StructuralChange } from './types.js';
+
+// Parse every document of a YAML stream, failing on the first syntax error
+function parseStream(text: string): Document[] {
+  const documents: Document[] = [...parseAllDocuments(text)];
+  for (const document of documents) {
+    if (document.errors.length > 0) {
+      throw new Error(document.errors[0].message);
+    }
+  }
+  return documents;
+}
+
+// Parse YAML. A single document is its value; a stream of several documents
+// (separated by ---) is an array with one element per document.
+export function parseYAML(text: string): JsonValue {
+  const documents = parseStream(text);
+  const values = documents.map((document) => JsonValueSchema.parse(document.toJS()));
+  if (values.length === 0) {
+    return null;
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+// Choose indentation and sequence style so rewritten YAML matches the original:
+// "key:\n- item" means sequences are not indented under their key.
+function toStringOptions(text: string, formatting: JSONFormatting) {
+  let indent = 2;
+  if (typeof formatting.indent === 'string') {
+    if (!/^ +$/.test(formatting.indent)) {
+      throw new Error('YAML indentation must be spaces');
+    }
+    indent = formatting.indent.length;
+  } else if (formatting.indent > 0) {
+    indent = formatting.indent;
+  }
+  const indentSeq = !/^( *)[^ #\r\n-][^\r\n]*:[ \t]*\r?\n\1- /m.test(text);
+  return { indent, indentSeq, lineWidth: 0 };
+}
+
+// Apply one change inside a single YAML document, keeping comments and
+// the style of untouched nodes
+function applyChange(document: Document, segments: PathSegment[], change: StructuralChange): void {
+  const key = segments[segments.length - 1];
+  if (change.type === 'removed') {
+    document.deleteIn(segments);
+    return;
+  }
+  if (segments.length === 0) {
+    document.contents = document.createNode(change.after);
+    return;
+  }
+  if (change.type === 'added' && typeof key === 'number') {
+    const parent = document.getIn(segments.slice(0, -1), true);
+    if (isSeq(parent)) {
+      parent.items.splice(key, 0, document.createNode(change.after));
+      return;
+    }
+  }
+  document.setIn(segments, change.after);
+}
+
+// Apply the difference between two values to YAML text. Streams of several
+// documents are edited as an array of documents, and must keep at least two.
+export function editYAML(text: string, before: JsonValue, after: JsonValue, formatting: JSONFormatting): string {
+  const documents = parseStream(text);
+  const isStream = documents.length > 1;
+  if (documents.length === 0) {
+    documents.push(new Document(null));
+  }
+
+  for (const change of diffSegments(before, after)) {
+    if (!isStream) {
+      applyChange(documents[0], change.segments, change);
+      continue;
+    }
+    if (change.segments.length === 0) {
+      throw new Error('A multi-document YAML stream must remain an array of documents');
+    }
+    const [index, ...segments] = change.segments as [number, ...PathSegment[]];
+    if (segments.length === 0 && change.type === 'added') {
+      documents.splice(index, 0, new Document(change.after));
+    } else if (segments.length === 0 && change.type === 'removed') {
+      documents.splice(index, 1);
+    } else {
+      applyChange(documents[index], segments, change);
+    }
+  }
+  // A single document would be read back as its own value, not as an array of one
+  if (isStream && documents.length < 2) {
+    throw new Error(
+      'A multi-document YAML stream must keep at least two documents; edit the remaining document as a separate file instead'
+    );
+  }
+
+  const options = toStringOptions(text, formatting);
+  let content = documents
+    .map((document, index) => {
+      if (index > 0 && document.directives) {
+        document.directives.docStart = true;
+      }
+      return document.toString(options);
+    })
+    .join('');
+  if (formatting.eol === '\r\n') {
+    content = content.replace(/\n/g, '\r\n');
+  }
+  return formatting.finalNewline ? content : content.replace(/\r?\n$/, '');
+}